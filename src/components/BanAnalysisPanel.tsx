@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import {
+  Box,
+  Chip,
+  FormControlLabel,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Switch,
+  Typography,
+} from '@mui/material';
+import type { Ban } from 'ban-chess.ts';
+import { useBanAnalysis } from '@/hooks/useBanAnalysis';
+import { isMateScore, type BanRanking } from '@/utils/banAnalysis';
+
+interface BanAnalysisPanelProps {
+  // Extended FEN of the position shown on the board
+  fen: string;
+  // The ban actually played from this position, when reviewing a game
+  playedBan?: Ban | null;
+}
+
+const SHOWN_BANS = 5;
+
+function formatScore(score: number): string {
+  if (isMateScore(score)) return score > 0 ? 'White mates' : 'Black mates';
+  const pawns = score / 100;
+  return `${pawns > 0 ? '+' : ''}${pawns.toFixed(1)}`;
+}
+
+function formatImpact(ranking: BanRanking): string {
+  if (ranking.isBanMate) return 'mate';
+  if (isMateScore(ranking.impact)) return 'wins';
+  return `−${(ranking.impact / 100).toFixed(1)}`;
+}
+
+const sameBan = (a: Ban, b: Ban | null | undefined) => !!b && a.from === b.from && a.to === b.to;
+
+/**
+ * Optional analysis of the pending ban: the most damaging bans for the side
+ * about to move, ban-mates flagged, and where the played ban ranked
+ */
+export default function BanAnalysisPanel({ fen, playedBan }: BanAnalysisPanelProps) {
+  const [enabled, setEnabled] = useState(false);
+  const { analysis, loading } = useBanAnalysis(fen, enabled);
+
+  const playedIndex = analysis && playedBan
+    ? analysis.rankings.findIndex(r => sameBan(r.ban, playedBan))
+    : -1;
+  const shown = analysis?.rankings.slice(0, SHOWN_BANS) ?? [];
+  const played = playedIndex >= SHOWN_BANS ? analysis?.rankings[playedIndex] : undefined;
+
+  const renderRanking = (ranking: BanRanking, rank: number) => (
+    <ListItem key={`${ranking.ban.from}${ranking.ban.to}`} disableGutters dense>
+      <ListItemText
+        primary={
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <Typography variant="body2" sx={{ fontFamily: 'monospace', minWidth: 24 }}>
+              {rank}.
+            </Typography>
+            <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+              {ranking.ban.from}→{ranking.ban.to}
+            </Typography>
+            {ranking.isBanMate && <Chip label="Ban-mate" size="small" color="error" />}
+            {sameBan(ranking.ban, playedBan) && <Chip label="Played" size="small" variant="outlined" />}
+            <Typography variant="body2" color="text.secondary" sx={{ ml: 'auto', fontFamily: 'monospace' }}>
+              {formatImpact(ranking)}
+            </Typography>
+          </Box>
+        }
+      />
+    </ListItem>
+  );
+
+  return (
+    <Box>
+      <FormControlLabel
+        control={<Switch size="small" checked={enabled} onChange={(_, checked) => setEnabled(checked)} />}
+        label={<Typography variant="body2">Ban analysis</Typography>}
+      />
+      {enabled && (
+        <Box sx={{ pl: 1 }}>
+          {loading && <LinearProgress />}
+          {!loading && !analysis && (
+            <Typography variant="caption" color="text.secondary">
+              Bans are analyzed in positions where a ban is due.
+            </Typography>
+          )}
+          {analysis && (
+            <>
+              <Typography variant="caption" color="text.secondary" component="p">
+                Banning {analysis.bannedSide} · eval without a ban {formatScore(analysis.baseline)}
+              </Typography>
+              {analysis.banMate && (
+                <Typography variant="caption" color="error" component="p">
+                  Ban-mate: {analysis.bannedSide} is in check with one escape
+                </Typography>
+              )}
+              <List dense disablePadding>
+                {shown.map((ranking, index) => renderRanking(ranking, index + 1))}
+                {played && renderRanking(played, playedIndex + 1)}
+              </List>
+              <Typography variant="caption" color="text.secondary">
+                Cost to {analysis.bannedSide} in pawns, {analysis.rankings.length} legal bans
+              </Typography>
+            </>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
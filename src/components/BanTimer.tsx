@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { Box, LinearProgress, Typography } from '@mui/material';
+
+interface BanTimerProps {
+  // When the pending ban runs out (ms since epoch, server time)
+  deadline: number;
+  // The game's per-ban limit in ms
+  limit: number;
+  // The pending ban is mine
+  isMine: boolean;
+}
+
+const TICK_MS = 100;
+
+/**
+ * Countdown for a timed ban. The server plays a random ban when it hits zero.
+ */
+export default function BanTimer({ deadline, limit, isMine }: BanTimerProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  const remaining = Math.max(0, deadline - now);
+
+  return (
+    <Box>
+      <Typography variant="caption" color={isMine && remaining < limit / 3 ? 'error' : 'text.secondary'}>
+        {isMine ? 'Your ban' : 'Opponent’s ban'}: {(remaining / 1000).toFixed(1)}s
+        {remaining === 0 && ' – picking a random ban'}
+      </Typography>
+      <LinearProgress
+        variant="determinate"
+        value={(remaining / limit) * 100}
+        color={isMine ? 'warning' : 'inherit'}
+        sx={{ mt: 0.5, height: 4, borderRadius: 2 }}
+      />
+    </Box>
+  );
+}
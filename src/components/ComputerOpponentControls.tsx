@@ -0,0 +1,77 @@
+import { Box, LinearProgress, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material';
+import type { Color } from 'ban-chess.ts';
+import { AI_LEVELS, type AiLevel } from '@/utils/banChessAi';
+
+interface ComputerOpponentControlsProps {
+  // null = hot-seat play against another human
+  level: AiLevel | null;
+  color: Color;
+  thinking: boolean;
+  onLevelChange: (level: AiLevel | null) => void;
+  onColorChange: (color: Color) => void;
+}
+
+const LEVEL_LABELS: Record<AiLevel, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+/**
+ * Opponent picker for /local: another human at the same board, or the
+ * computer at one of its levels playing the chosen color
+ */
+export default function ComputerOpponentControls({
+  level,
+  color,
+  thinking,
+  onLevelChange,
+  onColorChange,
+}: ComputerOpponentControlsProps) {
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      <Typography variant="caption" color="text.secondary">
+        Opponent
+      </Typography>
+      <ToggleButtonGroup
+        value={level ?? 'human'}
+        exclusive
+        onChange={(_, value: AiLevel | 'human' | null) => value && onLevelChange(value === 'human' ? null : value)}
+        size="small"
+        fullWidth
+      >
+        <ToggleButton value="human">Human</ToggleButton>
+        {AI_LEVELS.map(option => (
+          <ToggleButton key={option} value={option}>
+            {LEVEL_LABELS[option]}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+      {level && (
+        <>
+          <Typography variant="caption" color="text.secondary">
+            Computer plays
+          </Typography>
+          <ToggleButtonGroup
+            value={color}
+            exclusive
+            onChange={(_, value: Color | null) => value && onColorChange(value)}
+            size="small"
+            fullWidth
+          >
+            <ToggleButton value="white">White</ToggleButton>
+            <ToggleButton value="black">Black</ToggleButton>
+          </ToggleButtonGroup>
+          {thinking && (
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Computer is thinking…
+              </Typography>
+              <LinearProgress />
+            </Box>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,89 @@
+import { Box, Button, Typography } from '@mui/material';
+import { Close, Flag, Handshake } from '@mui/icons-material';
+import ConfirmActionButton from '@/components/ConfirmActionButton';
+import type { PlayerColor } from '@/types/game';
+
+interface DrawResignControlsProps {
+  myColor: PlayerColor;
+  // Color of the player with an open draw offer, if any
+  drawOfferedBy: string | null;
+  // A request is in flight
+  pending?: boolean;
+  // Neither side has acted yet - the game can be called off instead of resigned
+  canAbort?: boolean;
+  onAbort: () => void;
+  onResign: () => void;
+  onOfferDraw: () => void;
+  onAcceptDraw: () => void;
+  onDeclineDraw: () => void;
+}
+
+export default function DrawResignControls({
+  myColor,
+  drawOfferedBy,
+  pending = false,
+  canAbort = false,
+  onAbort,
+  onResign,
+  onOfferDraw,
+  onAcceptDraw,
+  onDeclineDraw,
+}: DrawResignControlsProps) {
+  const opponentOffered = !!drawOfferedBy && drawOfferedBy !== myColor;
+
+  if (canAbort) {
+    return (
+      <Button
+        onClick={onAbort}
+        disabled={pending}
+        startIcon={<Close />}
+        size="small"
+        variant="outlined"
+        color="warning"
+        fullWidth
+      >
+        Abort game
+      </Button>
+    );
+  }
+
+  return (
+    <Box>
+      {opponentOffered && (
+        <Box sx={{ mb: 1 }}>
+          <Typography variant="body2" sx={{ mb: 1, textAlign: 'center' }}>
+            Your opponent offers a draw
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button onClick={onAcceptDraw} disabled={pending} size="small" variant="contained" color="success" fullWidth>
+              Accept
+            </Button>
+            <Button onClick={onDeclineDraw} disabled={pending} size="small" variant="outlined" fullWidth>
+              Decline
+            </Button>
+          </Box>
+        </Box>
+      )}
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'center', gap: 1 }}>
+        {drawOfferedBy === myColor ? (
+          <Typography variant="caption" color="text.secondary">
+            Draw offered
+          </Typography>
+        ) : !opponentOffered && (
+          <ConfirmActionButton
+            icon={<Handshake fontSize="small" />}
+            tooltip="Offer draw"
+            onConfirm={onOfferDraw}
+            color="info"
+          />
+        )}
+        <ConfirmActionButton
+          icon={<Flag fontSize="small" />}
+          tooltip="Resign"
+          onConfirm={onResign}
+          color="error"
+        />
+      </Box>
+    </Box>
+  );
+}
@@ -132,8 +132,10 @@ export function GameClock({
     }
   }, [isRunning, localTime, serverClock, onTimeFlag, clockPrefs, tickInterval]);
 
-  // Start/stop clock based on turn
+  // Start/stop clock based on turn (local prediction only - a server clock
+  // drives running state through syncWithServer instead)
   useEffect(() => {
+    if (serverClock) return;
     if (isActive && isMyTurn) {
       // Start clock
       if (!turnStartRef.current) {
@@ -149,7 +151,7 @@ export function GameClock({
       setIsRunning(false);
       turnStartRef.current = null;
     }
-  }, [isActive, isMyTurn, isRunning]);
+  }, [isActive, isMyTurn, isRunning, serverClock]);
 
   // Initialize lastSync on client side to avoid hydration mismatch
   useEffect(() => {
@@ -194,11 +196,13 @@ export function GameClock({
   }, [isRunning, updateClock, tickInterval]);
 
   // Sync with server clock updates
+  const serverTimeRemaining = serverClock?.timeRemaining;
+  const serverTurnStartTime = serverClock?.turnStartTime ?? null;
   useEffect(() => {
-    if (serverClock) {
-      syncWithServer(serverClock.timeRemaining, serverClock.turnStartTime);
+    if (serverTimeRemaining !== undefined) {
+      syncWithServer(serverTimeRemaining, serverTurnStartTime);
     }
-  }, [serverClock, syncWithServer]);
+  }, [serverTimeRemaining, serverTurnStartTime, syncWithServer]);
 
   // Calculate progress percentage
   const progressPercentage = (localTime / timeControl.initialTime) * 100;
@@ -266,6 +270,8 @@ interface DualClockProps {
   };
   activeColor: PlayerColor | null;
   myColor: PlayerColor | null;
+  // Local timestamp when the active player's clock started (from the server clock)
+  turnStartTime?: number | null;
   onTimeFlag?: (color: PlayerColor) => void;
   preferences?: Partial<ClockPreferences>;
 }
@@ -276,9 +282,12 @@ export function DualClock({
   timeControl,
   activeColor,
   myColor,
+  turnStartTime,
   onTimeFlag,
   preferences,
 }: DualClockProps) {
+  const activeTurnStart = activeColor ? (turnStartTime ?? Date.now()) : null;
+
   return (
     <Box sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
       {/* Opponent's clock (top) */}
@@ -289,7 +298,7 @@ export function DualClock({
         isMyTurn={false}
         serverClock={{
           timeRemaining: myColor === "white" ? blackTime : whiteTime,
-          turnStartTime: activeColor === (myColor === "white" ? "black" : "white") ? Date.now() : null,
+          turnStartTime: activeColor === (myColor === "white" ? "black" : "white") ? activeTurnStart : null,
           lastUpdateTime: Date.now(),
           isRunning: activeColor === (myColor === "white" ? "black" : "white"),
         }}
@@ -301,13 +310,13 @@ export function DualClock({
       <GameClock
         color={myColor || "white"}
         timeControl={timeControl}
-        isActive={activeColor === myColor}
+        isActive={activeColor === (myColor || "white")}
         isMyTurn={true}
         serverClock={{
           timeRemaining: myColor === "white" ? whiteTime : blackTime,
-          turnStartTime: activeColor === myColor ? Date.now() : null,
+          turnStartTime: activeColor === (myColor || "white") ? activeTurnStart : null,
           lastUpdateTime: Date.now(),
-          isRunning: activeColor === myColor,
+          isRunning: activeColor === (myColor || "white"),
         }}
         onTimeFlag={() => onTimeFlag?.(myColor || "white")}
         preferences={preferences}
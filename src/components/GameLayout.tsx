@@ -4,6 +4,19 @@ import ResizableChessBoard from './ResizableChessBoard';
 import MoveHistoryTable from './MoveHistoryTable';
 import type { HistoryEntry } from './MoveHistoryTable';
 import type { ReactNode } from 'react';
+import type { GameEndReason } from '@/types/game';
+
+const endReasonLabels: Record<NonNullable<GameEndReason>, string> = {
+  checkmate: 'CHECKMATE',
+  resignation: 'RESIGNATION',
+  draw_agreement: 'DRAW AGREED',
+  stalemate: 'STALEMATE',
+  insufficient_material: 'DRAW - INSUFFICIENT MATERIAL',
+  threefold_repetition: 'DRAW - REPETITION',
+  fifty_move_rule: 'DRAW - 50 MOVE RULE',
+  timeout: 'TIMEOUT',
+  aborted: 'ABORTED',
+};
 
 interface GameLayoutProps {
   // Board props
@@ -22,9 +35,13 @@ interface GameLayoutProps {
   isGameOver?: boolean;
   checkmate?: boolean;
   stalemate?: boolean;
+  // Why the server ended the game; takes precedence over checkmate/stalemate
+  endReason?: GameEndReason;
   
   // Move history
   moveHistory: HistoryEntry[];
+  selectedPly?: number | null;
+  onSelectPly?: (ply: number) => void;
   
   // Actions
   onNewGame?: () => void;
@@ -47,7 +64,10 @@ export default function GameLayout({
   isGameOver = false,
   checkmate = false,
   stalemate = false,
+  endReason = null,
   moveHistory,
+  selectedPly,
+  onSelectPly,
   onNewGame,
   additionalControls,
 }: GameLayoutProps) {
@@ -101,6 +121,8 @@ export default function GameLayout({
         >
             <MoveHistoryTable 
               history={moveHistory}
+              selectedPly={selectedPly}
+              onSelectPly={onSelectPly}
             />
             
             {/* Game Status and Controls */}
@@ -130,7 +152,7 @@ export default function GameLayout({
               {inCheck && <Chip label="CHECK" size="small" color="warning" />}
               {isGameOver && (
                 <Chip 
-                  label={checkmate ? 'CHECKMATE' : stalemate ? 'STALEMATE' : 'GAME OVER'}
+                  label={endReason ? endReasonLabels[endReason] : checkmate ? 'CHECKMATE' : stalemate ? 'STALEMATE' : 'GAME OVER'}
                   size="small"
                   color="error"
                 />
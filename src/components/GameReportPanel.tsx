@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import {
+  Box,
+  FormControlLabel,
+  LinearProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+  Switch,
+  Typography,
+} from '@mui/material';
+import type { Color } from 'ban-chess.ts';
+import { useGameReport } from '@/hooks/useGameReport';
+import { isMateScore } from '@/utils/banAnalysis';
+
+interface GameReportPanelProps {
+  gameId: string;
+  startFen?: string | null;
+  // The game's final position, to check the recorded moves against
+  finalFen?: string | null;
+  // The viewer played this game, so a freshly built report can be stored
+  canStore: boolean;
+  // Jumps the board to a replay ply
+  onSelectPly?: (ply: number) => void;
+}
+
+interface ReportLine {
+  ply: number;
+  color: Color;
+  text: string;
+  detail: string;
+}
+
+function formatLoss(loss: number): string {
+  if (isMateScore(loss)) return 'mate';
+  return `−${(loss / 100).toFixed(1)}`;
+}
+
+const squares = (a: { from: string; to: string }) => `${a.from}→${a.to}`;
+const side = (color: Color) => (color === 'white' ? 'White' : 'Black');
+
+/**
+ * Post-game report: the costliest moves and bans, missed ban-mates and
+ * checks left with a single escape. Entries jump the board to the position.
+ */
+export default function GameReportPanel({ gameId, startFen, finalFen, canStore, onSelectPly }: GameReportPanelProps) {
+  const [enabled, setEnabled] = useState(false);
+  const { report, loading, error } = useGameReport(gameId, startFen, finalFen, enabled, canStore);
+
+  const renderSection = (title: string, lines: ReportLine[], empty: string) => (
+    <Box sx={{ mt: 1 }}>
+      <Typography variant="caption" color="text.secondary" component="p">
+        {title}
+      </Typography>
+      {lines.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {empty}
+        </Typography>
+      ) : (
+        <List dense disablePadding>
+          {lines.map(line => (
+            <ListItemButton
+              key={`${line.ply}-${line.text}`}
+              dense
+              disableGutters
+              onClick={() => onSelectPly?.(line.ply)}
+            >
+              <ListItemText
+                primary={
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <Typography variant="body2" sx={{ minWidth: 40 }}>
+                      {side(line.color)}
+                    </Typography>
+                    <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                      {line.text}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary" sx={{ ml: 'auto', fontFamily: 'monospace' }}>
+                      {line.detail}
+                    </Typography>
+                  </Box>
+                }
+              />
+            </ListItemButton>
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+
+  return (
+    <Box>
+      <FormControlLabel
+        control={<Switch size="small" checked={enabled} onChange={(_, checked) => setEnabled(checked)} />}
+        label={<Typography variant="body2">Game report</Typography>}
+      />
+      {enabled && (
+        <Box sx={{ pl: 1 }}>
+          {loading && <LinearProgress />}
+          {error && (
+            <Typography variant="caption" color="error">
+              {error}
+            </Typography>
+          )}
+          {report && (
+            <>
+              {renderSection(
+                'Costliest moves (best instead)',
+                report.moveSwings.map(swing => ({
+                  ply: swing.ply,
+                  color: swing.color,
+                  text: `${swing.played.san} (${squares(swing.best)})`,
+                  detail: formatLoss(swing.loss),
+                })),
+                'No costly moves.',
+              )}
+              {renderSection(
+                'Costliest bans (best instead)',
+                report.banSwings.map(swing => ({
+                  ply: swing.ply,
+                  color: swing.color,
+                  text: `${squares(swing.played)} (${squares(swing.best)})`,
+                  detail: formatLoss(swing.loss),
+                })),
+                'No costly bans.',
+              )}
+              {renderSection(
+                'Missed ban-mates',
+                report.missedBanMates.map(missed => ({
+                  ply: missed.ply,
+                  color: missed.color,
+                  text: `${squares(missed.played)} (${squares(missed.banMate)})`,
+                  detail: 'mate',
+                })),
+                'None.',
+              )}
+              {renderSection(
+                'Checks left with one escape',
+                report.singleEscapes.map(escape => ({
+                  ply: escape.ply,
+                  color: escape.color,
+                  text: squares(escape.escape),
+                  detail: 'only move',
+                })),
+                'None.',
+              )}
+            </>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+}
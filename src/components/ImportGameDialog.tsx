@@ -0,0 +1,100 @@
+import { useState, useRef } from 'react';
+import type { ChangeEvent } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  TextField,
+  Alert,
+  Typography,
+} from '@mui/material';
+import { UploadFile } from '@mui/icons-material';
+import { importBanChess, BanChessImportError, type ImportedGame } from '@/utils/pgn';
+
+interface ImportGameDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onImport: (game: ImportedGame) => void;
+}
+
+export default function ImportGameDialog({ open, onClose, onImport }: ImportGameDialogProps) {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setText(await file.text());
+      setError(null);
+    } catch {
+      setError('Could not read that file');
+    }
+  };
+
+  const handleImport = () => {
+    try {
+      onImport(importBanChess(text));
+      setText('');
+      setError(null);
+      onClose();
+    } catch (err) {
+      setError(err instanceof BanChessImportError ? err.message : 'Could not import that game');
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Import game</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          Paste a ban-annotated PGN (e.g. <code>1. {'{banning: e2e4}'} d4</code>) or a FEN.
+        </Typography>
+        <TextField
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder={'[Event "Ban Chess"]\n\n1. {banning: e2e4} d4 {banning: e7e5} d5'}
+          multiline
+          minRows={6}
+          maxRows={14}
+          fullWidth
+          autoFocus
+          inputProps={{ spellCheck: false, style: { fontFamily: 'monospace' } }}
+        />
+        {error && (
+          <Alert severity="error" sx={{ mt: 2 }}>
+            {error}
+          </Alert>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".pgn,.fen,.txt,text/plain"
+          hidden
+          onChange={handleFile}
+        />
+      </DialogContent>
+      <DialogActions sx={{ justifyContent: 'space-between', px: 3, pb: 2 }}>
+        <Button startIcon={<UploadFile />} onClick={() => fileInputRef.current?.click()}>
+          Upload file
+        </Button>
+        <div>
+          <Button onClick={handleClose}>Cancel</Button>
+          <Button variant="contained" onClick={handleImport} disabled={!text.trim()}>
+            Load
+          </Button>
+        </div>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -13,10 +13,22 @@ import {
   Divider,
   Alert,
   AlertTitle,
-  Stack
+  Stack,
+  ToggleButton,
+  ToggleButtonGroup
 } from '@mui/material';
-import { SportsEsports, Cancel, Computer, OpenInNew, Flag } from '@mui/icons-material';
+import { SportsEsports, Cancel, Computer, OpenInNew, Flag, Extension } from '@mui/icons-material';
 import { getErrorMessage } from '@/utils/type-guards';
+import type { StartPositionKind } from '@/utils/startPosition';
+import {
+  DEFAULT_TIME_CONTROL_PRESET,
+  TIME_CONTROL_CATEGORY_LABELS,
+  TIME_CONTROL_PRESETS,
+  findTimeControlPreset,
+} from '@/utils/timeControlPresets';
+
+// Shortly before the server's default bot wait (bot_match_wait_seconds)
+const BOT_HINT_AFTER_SECONDS = 30;
 
 // Type for game match payload
 interface GameMatchPayload {
@@ -34,6 +46,9 @@ const Matchmaking = forwardRef<MatchmakingHandle>((props, ref) => {
   const [timeInQueue, setTimeInQueue] = useState(0);
   const [error, setError] = useState<{ message: string; gameId?: string } | null>(null);
   const [isResigning, setIsResigning] = useState(false);
+  // Players are only paired with others in the same pool
+  const [startPosition, setStartPosition] = useState<StartPositionKind>('standard');
+  const [timeControlId, setTimeControlId] = useState(DEFAULT_TIME_CONTROL_PRESET);
   const { user } = useAuth();
   const router = useRouter();
   
@@ -125,7 +140,11 @@ const Matchmaking = forwardRef<MatchmakingHandle>((props, ref) => {
     
     try {
       // Join matchmaking queue - server will handle the matching
-      await GameService.joinMatchmakingQueue();
+      const preset = findTimeControlPreset(timeControlId);
+      await GameService.joinMatchmakingQueue(
+        preset && { minutes: preset.minutes, increment: preset.increment },
+        startPosition,
+      );
       
       // The server will match players and send a realtime notification
       // via the player:${user.id} channel with event 'game_matched'
@@ -248,10 +267,16 @@ const Matchmaking = forwardRef<MatchmakingHandle>((props, ref) => {
             <CircularProgress size={60} thickness={4} />
           </Box>
           
-          <Typography variant="body1" sx={{ mb: 3 }}>
+          <Typography variant="body1" sx={{ mb: timeInQueue >= BOT_HINT_AFTER_SECONDS ? 1 : 3 }}>
             Time in queue: {formatTime(timeInQueue)}
           </Typography>
           
+          {timeInQueue >= BOT_HINT_AFTER_SECONDS && (
+            <Typography variant="caption" color="text.secondary" component="p" sx={{ mb: 3 }}>
+              Quiet right now - if nobody turns up soon you&apos;ll be matched with a bot (unrated)
+            </Typography>
+          )}
+          
           <Button
             variant="contained"
             color="error"
@@ -323,6 +348,34 @@ const Matchmaking = forwardRef<MatchmakingHandle>((props, ref) => {
         </Alert>
       )}
       
+      <ToggleButtonGroup
+        value={startPosition}
+        exclusive
+        onChange={(_, value: StartPositionKind | null) => value && setStartPosition(value)}
+        size="small"
+        sx={{ mb: 3 }}
+      >
+        <ToggleButton value="standard">Standard</ToggleButton>
+        <ToggleButton value="chess960">Chess960</ToggleButton>
+      </ToggleButtonGroup>
+      
+      <ToggleButtonGroup
+        value={timeControlId}
+        exclusive
+        onChange={(_, value: string | null) => value && setTimeControlId(value)}
+        size="small"
+        sx={{ mb: 3, display: 'flex', flexWrap: 'wrap', justifyContent: 'center' }}
+      >
+        {TIME_CONTROL_PRESETS.map(preset => (
+          <ToggleButton key={preset.id} value={preset.id} sx={{ flexDirection: 'column', lineHeight: 1.2 }}>
+            <span>{preset.id}</span>
+            <Typography variant="caption" color="text.secondary">
+              {TIME_CONTROL_CATEGORY_LABELS[preset.category]}
+            </Typography>
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+      
       <Button
         variant="contained"
         onClick={handleFindGame}
@@ -343,7 +396,7 @@ const Matchmaking = forwardRef<MatchmakingHandle>((props, ref) => {
       </Button>
       
       <Typography variant="caption" display="block" sx={{ mt: 3, color: 'text.secondary' }}>
-        10+0 • Rated
+        {timeControlId} • Rated{startPosition === 'chess960' && ' • Chess960'}
       </Typography>
       
       <Divider sx={{ my: 3 }} />
@@ -357,6 +410,15 @@ const Matchmaking = forwardRef<MatchmakingHandle>((props, ref) => {
       >
         Play Offline
       </Button>
+      <Button
+        variant="outlined"
+        onClick={() => router.push('/puzzles')}
+        startIcon={<Extension />}
+        size="medium"
+        sx={{ mt: 1, ml: 1 }}
+      >
+        Puzzles
+      </Button>
     </Paper>
   );
 });
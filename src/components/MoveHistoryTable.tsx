@@ -6,13 +6,71 @@ export interface HistoryEntry {
   whiteBan?: string;  // Ban that White makes after moving
   blackMove?: string;
   blackBan?: string;  // Ban that Black makes (initially or after moving)
+  // Ply (1-based action count) each cell was played at, when known; makes the cell clickable
+  plies?: Partial<Record<HistoryCellKey, number>>;
 }
 
+type HistoryCellKey = 'whiteBan' | 'whiteMove' | 'blackBan' | 'blackMove';
+
 interface MoveHistoryTableProps {
   history: HistoryEntry[];
+  // Ply currently shown on the board (null/undefined = latest position)
+  selectedPly?: number | null;
+  onSelectPly?: (ply: number) => void;
+}
+
+interface HistoryCellProps {
+  text: string;
+  isBan: boolean;
+  ply?: number;
+  selected: boolean;
+  onSelectPly?: (ply: number) => void;
 }
 
-export default function MoveHistoryTable({ history }: MoveHistoryTableProps) {
+function HistoryCell({ text, isBan, ply, selected, onSelectPly }: HistoryCellProps) {
+  const clickable = !!onSelectPly && ply !== undefined;
+
+  return (
+    <Typography
+      component={clickable ? 'button' : 'span'}
+      onClick={clickable ? () => onSelectPly(ply) : undefined}
+      sx={{
+        color: isBan ? 'error.main' : 'inherit',
+        fontFamily: 'monospace',
+        fontSize: '0.95rem',
+        fontWeight: 500,
+        border: 'none',
+        background: 'none',
+        px: 0.5,
+        borderRadius: 0.5,
+        ...(clickable && {
+          cursor: 'pointer',
+          '&:hover': { bgcolor: 'action.hover' },
+        }),
+        ...(selected && { bgcolor: 'action.selected' }),
+      }}
+    >
+      {text}
+    </Typography>
+  );
+}
+
+export default function MoveHistoryTable({ history, selectedPly, onSelectPly }: MoveHistoryTableProps) {
+  const renderCell = (entry: HistoryEntry | undefined, key: HistoryCellKey) => {
+    const text = entry?.[key];
+    if (!text) return null;
+    const ply = entry.plies?.[key];
+    return (
+      <HistoryCell
+        text={text}
+        isBan={key === 'whiteBan' || key === 'blackBan'}
+        ply={ply}
+        selected={ply !== undefined && ply === selectedPly}
+        onSelectPly={onSelectPly}
+      />
+    );
+  };
+
   // Always show 4 rows minimum
   const displayRows = Math.max(4, history.length);
   
@@ -103,25 +161,8 @@ export default function MoveHistoryTable({ history }: MoveHistoryTableProps) {
                 borderColor: 'divider',
                 px: 1,
               }}>
-                {entry?.whiteBan && (
-                  <Typography sx={{ 
-                    color: 'error.main',
-                    fontFamily: 'monospace',
-                    fontSize: '0.95rem',
-                    fontWeight: 500,
-                  }}>
-                    {entry.whiteBan}
-                  </Typography>
-                )}
-                {entry?.whiteMove && (
-                  <Typography sx={{ 
-                    fontFamily: 'monospace',
-                    fontSize: '0.95rem',
-                    fontWeight: 500,
-                  }}>
-                    {entry.whiteMove}
-                  </Typography>
-                )}
+                {renderCell(entry, 'whiteBan')}
+                {renderCell(entry, 'whiteMove')}
               </Box>
               
               {/* Black's cell */}
@@ -133,25 +174,8 @@ export default function MoveHistoryTable({ history }: MoveHistoryTableProps) {
                 backgroundColor: idx % 2 === 1 ? 'transparent' : 'rgba(0,0,0,0.03)',
                 px: 1,
               }}>
-                {entry?.blackBan && (
-                  <Typography sx={{ 
-                    color: 'error.main',
-                    fontFamily: 'monospace',
-                    fontSize: '0.95rem',
-                    fontWeight: 500,
-                  }}>
-                    {entry.blackBan}
-                  </Typography>
-                )}
-                {entry?.blackMove && (
-                  <Typography sx={{ 
-                    fontFamily: 'monospace',
-                    fontSize: '0.95rem',
-                    fontWeight: 500,
-                  }}>
-                    {entry.blackMove}
-                  </Typography>
-                )}
+                {renderCell(entry, 'blackBan')}
+                {renderCell(entry, 'blackMove')}
               </Box>
             </Box>
           );
@@ -0,0 +1,68 @@
+import { Dialog, DialogTitle, Box, IconButton, Tooltip } from '@mui/material';
+import Image from 'next/image';
+import type { Move } from 'ban-chess.ts';
+import type { PlayerColor, PromoteablePieces } from '@/types/game';
+
+const PROMOTION_ORDER: PromoteablePieces[] = ['q', 'r', 'b', 'n'];
+
+const pieceNames: Record<PromoteablePieces, string> = {
+  q: 'Queen',
+  r: 'Rook',
+  b: 'Bishop',
+  n: 'Knight',
+};
+
+/**
+ * Promotions the engine allows for a from→to move.
+ * Empty when the move is not a promotion (or is banned - bans cover every promotion on the square).
+ */
+export function getPromotionOptions(legalMoves: Move[], from: string, to: string): PromoteablePieces[] {
+  const allowed = new Set(
+    legalMoves
+      .filter(m => m.from === from && m.to === to && m.promotion)
+      .map(m => m.promotion as PromoteablePieces)
+  );
+  return PROMOTION_ORDER.filter(p => allowed.has(p));
+}
+
+interface PromotionDialogProps {
+  open: boolean;
+  color: PlayerColor;
+  options: PromoteablePieces[];
+  onSelect: (piece: PromoteablePieces) => void;
+  onCancel: () => void;
+}
+
+export default function PromotionDialog({ open, color, options, onSelect, onCancel }: PromotionDialogProps) {
+  const folder = color === 'white' ? 'White' : 'Black';
+
+  return (
+    <Dialog open={open} onClose={onCancel}>
+      <DialogTitle sx={{ textAlign: 'center', pb: 1 }}>Promote to</DialogTitle>
+      <Box sx={{ display: 'flex', gap: 1, px: 3, pb: 3 }}>
+        {options.map(piece => (
+          <Tooltip key={piece} title={pieceNames[piece]}>
+            <IconButton
+              onClick={() => onSelect(piece)}
+              sx={{
+                width: 72,
+                height: 72,
+                borderRadius: 1,
+                bgcolor: 'var(--board-light-square)',
+                '&:hover': { bgcolor: 'var(--board-dark-square)' },
+              }}
+            >
+              <Image
+                src={`/pieces/${folder}/${pieceNames[piece]}.png`}
+                alt={pieceNames[piece]}
+                width={60}
+                height={60}
+                draggable={false}
+              />
+            </IconButton>
+          </Tooltip>
+        ))}
+      </Box>
+    </Dialog>
+  );
+}
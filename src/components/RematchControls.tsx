@@ -0,0 +1,67 @@
+import { Box, Button, Typography } from '@mui/material';
+import { Replay } from '@mui/icons-material';
+import type { PlayerColor } from '@/types/game';
+
+interface RematchControlsProps {
+  myColor: PlayerColor;
+  // Color of the player with an open offer, if any
+  rematchOfferedBy: string | null;
+  // A request is in flight
+  pending?: boolean;
+  onOffer: () => void;
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+export default function RematchControls({
+  myColor,
+  rematchOfferedBy,
+  pending = false,
+  onOffer,
+  onAccept,
+  onDecline,
+}: RematchControlsProps) {
+  if (rematchOfferedBy && rematchOfferedBy !== myColor) {
+    return (
+      <Box>
+        <Typography variant="body2" sx={{ mb: 1, textAlign: 'center' }}>
+          Your opponent wants a rematch
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button onClick={onAccept} disabled={pending} size="small" variant="contained" color="success" fullWidth>
+            Accept
+          </Button>
+          <Button onClick={onDecline} disabled={pending} size="small" variant="outlined" fullWidth>
+            Decline
+          </Button>
+        </Box>
+      </Box>
+    );
+  }
+
+  if (rematchOfferedBy === myColor) {
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="body2" sx={{ flex: 1 }}>
+          Rematch offered…
+        </Typography>
+        <Button onClick={onDecline} disabled={pending} size="small">
+          Cancel
+        </Button>
+      </Box>
+    );
+  }
+
+  return (
+    <Button
+      onClick={onOffer}
+      disabled={pending}
+      startIcon={<Replay />}
+      size="small"
+      variant="contained"
+      fullWidth
+    >
+      Rematch
+    </Button>
+  );
+}
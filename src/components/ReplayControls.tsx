@@ -0,0 +1,66 @@
+import { Box, Button, IconButton, Tooltip, Typography } from '@mui/material';
+import { FirstPage, LastPage, NavigateBefore, NavigateNext, PlayArrow } from '@mui/icons-material';
+import type { GameReplay } from '@/hooks/useGameReplay';
+
+interface ReplayControlsProps {
+  replay: GameReplay;
+  // Game still in progress - offers a way back to the current position
+  isLive?: boolean;
+}
+
+export default function ReplayControls({ replay, isLive = false }: ReplayControlsProps) {
+  const { ply, totalPlies, isBrowsing, first, prev, next, last } = replay;
+  const atStart = ply === 0;
+  const atEnd = ply === totalPlies;
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Tooltip title="First (Home)">
+          <span>
+            <IconButton size="small" onClick={first} disabled={atStart} aria-label="First position">
+              <FirstPage />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Previous (←)">
+          <span>
+            <IconButton size="small" onClick={prev} disabled={atStart} aria-label="Previous ply">
+              <NavigateBefore />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Typography variant="caption" sx={{ minWidth: 56, textAlign: 'center', fontFamily: 'monospace' }}>
+          {ply} / {totalPlies}
+        </Typography>
+        <Tooltip title="Next (→)">
+          <span>
+            <IconButton size="small" onClick={next} disabled={atEnd} aria-label="Next ply">
+              <NavigateNext />
+            </IconButton>
+          </span>
+        </Tooltip>
+        <Tooltip title="Last (End)">
+          <span>
+            <IconButton size="small" onClick={last} disabled={atEnd} aria-label="Last position">
+              <LastPage />
+            </IconButton>
+          </span>
+        </Tooltip>
+      </Box>
+      {isLive && isBrowsing && (
+        <Button
+          onClick={last}
+          startIcon={<PlayArrow />}
+          size="small"
+          variant="contained"
+          color="secondary"
+          fullWidth
+          sx={{ mt: 1 }}
+        >
+          Back to live
+        </Button>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,72 @@
+import { Box, Button, Typography } from '@mui/material';
+import { Undo } from '@mui/icons-material';
+import type { PlayerColor } from '@/types/game';
+
+interface TakebackControlsProps {
+  myColor: PlayerColor;
+  // Color of the player with an open takeback request, if any
+  takebackRequestedBy: string | null;
+  // The last move or ban was mine, so I can ask to take it back
+  canRequest: boolean;
+  // A request is in flight
+  pending?: boolean;
+  onRequest: () => void;
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+export default function TakebackControls({
+  myColor,
+  takebackRequestedBy,
+  canRequest,
+  pending = false,
+  onRequest,
+  onAccept,
+  onDecline,
+}: TakebackControlsProps) {
+  if (takebackRequestedBy && takebackRequestedBy !== myColor) {
+    return (
+      <Box>
+        <Typography variant="body2" sx={{ mb: 1, textAlign: 'center' }}>
+          Your opponent asks for a takeback
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1 }}>
+          <Button onClick={onAccept} disabled={pending} size="small" variant="contained" color="success" fullWidth>
+            Accept
+          </Button>
+          <Button onClick={onDecline} disabled={pending} size="small" variant="outlined" fullWidth>
+            Decline
+          </Button>
+        </Box>
+      </Box>
+    );
+  }
+
+  if (takebackRequestedBy === myColor) {
+    return (
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Typography variant="body2" sx={{ flex: 1 }}>
+          Takeback requested…
+        </Typography>
+        <Button onClick={onDecline} disabled={pending} size="small">
+          Cancel
+        </Button>
+      </Box>
+    );
+  }
+
+  if (!canRequest) return null;
+
+  return (
+    <Button
+      onClick={onRequest}
+      disabled={pending}
+      startIcon={<Undo />}
+      size="small"
+      variant="outlined"
+      fullWidth
+    >
+      Request takeback
+    </Button>
+  );
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { UserService } from '@/services/userService';
+
+/**
+ * Whether pawns should promote to a queen without asking.
+ * Follows settings.auto_queen; settings rows are created lazily, so a user
+ * without one (or a signed-out player on /local) gets the promotion picker.
+ */
+export function useAutoQueen(): boolean {
+  const { user } = useAuth();
+  const [autoQueen, setAutoQueen] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setAutoQueen(false);
+      return;
+    }
+
+    let cancelled = false;
+    UserService.getSettings(user.id)
+      .then(settings => {
+        if (!cancelled) setAutoQueen(settings?.auto_queen ?? false);
+      })
+      .catch(() => {
+        if (!cancelled) setAutoQueen(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  return autoQueen;
+}
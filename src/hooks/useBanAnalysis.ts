@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react';
+import type { BanAnalysis } from '@/utils/banAnalysis';
+
+export interface BanAnalysisRequest {
+  id: number;
+  fen: string;
+}
+
+export interface BanAnalysisResponse {
+  id: number;
+  analysis: BanAnalysis | null;
+}
+
+/**
+ * Ban analysis of `fen`, computed in a Web Worker while `enabled`.
+ * `analysis` is null while computing and for positions with no ban due.
+ */
+export function useBanAnalysis(fen: string | null, enabled: boolean) {
+  const workerRef = useRef<Worker | null>(null);
+  const latestIdRef = useRef(0);
+  const [analysis, setAnalysis] = useState<BanAnalysis | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const worker = new Worker(new URL('../workers/banAnalysis.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<BanAnalysisResponse>) => {
+      // Only the newest position counts
+      if (event.data.id !== latestIdRef.current) return;
+      setAnalysis(event.data.analysis);
+      setLoading(false);
+    };
+    worker.onerror = (event) => {
+      console.error('[useBanAnalysis] Worker error:', event.message);
+      setLoading(false);
+    };
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    const worker = workerRef.current;
+    setAnalysis(null);
+    if (!enabled || !worker || !fen) {
+      setLoading(false);
+      return;
+    }
+
+    const id = ++latestIdRef.current;
+    setLoading(true);
+    const request: BanAnalysisRequest = { id, fen };
+    worker.postMessage(request);
+  }, [fen, enabled]);
+
+  return { analysis, loading };
+}
@@ -0,0 +1,64 @@
+import { useCallback, useEffect, useRef } from 'react';
+import type { Action } from 'ban-chess.ts';
+import type { AiLevel } from '@/utils/banChessAi';
+
+export interface AiRequest {
+  id: number;
+  fen: string;
+  level: AiLevel;
+}
+
+export interface AiResponse {
+  id: number;
+  action: Action | null;
+}
+
+/**
+ * Computer opponent for /local. The search runs in a Web Worker so the board
+ * stays responsive while it thinks. `requestAction` resolves with the action
+ * for `fen`, or null when the game is over; a newer request supersedes an
+ * older one, which then resolves with null.
+ */
+export function useBanChessAi() {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef<{ id: number; resolve: (action: Action | null) => void } | null>(null);
+  const nextIdRef = useRef(0);
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/banChessAi.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<AiResponse>) => {
+      const pending = pendingRef.current;
+      if (!pending || pending.id !== event.data.id) return;
+      pendingRef.current = null;
+      pending.resolve(event.data.action);
+    };
+    worker.onerror = (event) => {
+      console.error('[useBanChessAi] Worker error:', event.message);
+      pendingRef.current?.resolve(null);
+      pendingRef.current = null;
+    };
+    workerRef.current = worker;
+
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      pendingRef.current?.resolve(null);
+      pendingRef.current = null;
+    };
+  }, []);
+
+  const requestAction = useCallback((fen: string, level: AiLevel): Promise<Action | null> => {
+    const worker = workerRef.current;
+    if (!worker) return Promise.resolve(null);
+
+    pendingRef.current?.resolve(null);
+    const id = ++nextIdRef.current;
+    return new Promise(resolve => {
+      pendingRef.current = { id, resolve };
+      const request: AiRequest = { id, fen, level };
+      worker.postMessage(request);
+    });
+  }, []);
+
+  return { requestAction };
+}
@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useState, useCallback } from 'react';
+import type { HistoryEntry as EngineHistoryEntry } from 'ban-chess.ts';
+import { GameService } from '@/services/gameService';
+import { replayActions, replayReachesFen } from '@/utils/pgn';
+import { STANDARD_START_FEN } from '@/utils/startPosition';
+import { historyRowsFromEngine } from '@/utils/moveHistory';
+import { useSingleKeys, Keys } from '@/hooks/useKeys';
+import type { HistoryEntry } from '@/components/MoveHistoryTable';
+
+export interface GameReplay {
+  // Number of plies (bans + moves); ply 0 is the starting position
+  totalPlies: number;
+  // Ply shown on the board; equals totalPlies when following the game
+  ply: number;
+  // Looking at an earlier position rather than the latest one
+  isBrowsing: boolean;
+  fen: string;
+  // Ban in effect at this ply: the ban just placed, or the one the last move was made under
+  ban: { from: string; to: string } | null;
+  // Ban played from this position, when the next ply is a ban
+  nextBan: { from: string; to: string } | null;
+  rows: HistoryEntry[];
+  goTo: (ply: number) => void;
+  first: () => void;
+  prev: () => void;
+  next: () => void;
+  last: () => void;
+}
+
+/**
+ * Position history of a game, rebuilt from its game_moves, for stepping
+ * back through a live or finished game. The moves are refetched whenever
+ * the game version changes, so live updates keep arriving while browsing.
+ * Arrow keys step, Home/End jump to the ends. `startFen` is the game's
+ * starting_fen, for games that didn't start from the standard position.
+ * `currentFen` is the game's position; moves that don't replay to it are
+ * an incomplete record and aren't shown.
+ * Returns null until the moves are loaded.
+ */
+export function useGameReplay(
+  gameId: string | undefined,
+  version: number | null,
+  startFen?: string | null,
+  currentFen?: string | null,
+): GameReplay | null {
+  const [history, setHistory] = useState<EngineHistoryEntry[] | null>(null);
+  // null = follow the latest position
+  const [selectedPly, setSelectedPly] = useState<number | null>(null);
+
+  useEffect(() => {
+    setHistory(null);
+    setSelectedPly(null);
+  }, [gameId]);
+
+  useEffect(() => {
+    if (!gameId) return;
+
+    let cancelled = false;
+    GameService.loadGameMoves(gameId)
+      .then(moves => {
+        // Games recorded before game_moves was kept complete can't be replayed;
+        // the page keeps showing the live board for them
+        if (cancelled || moves.length === 0) return;
+        const engine = replayActions(moves, startFen ?? undefined);
+        if (!replayReachesFen(engine, currentFen)) {
+          // Also hit when the moves are fetched mid-update; the next version refetches
+          console.warn(`[useGameReplay] Recorded moves of game ${gameId} don't reach its current position`);
+          return;
+        }
+        setHistory(engine.history());
+      })
+      .catch(error => {
+        console.error('[useGameReplay] Failed to load moves:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, version, startFen, currentFen]);
+
+  const totalPlies = history?.length ?? 0;
+
+  const goTo = useCallback((target: number) => {
+    const clamped = Math.max(0, Math.min(totalPlies, target));
+    setSelectedPly(clamped >= totalPlies ? null : clamped);
+  }, [totalPlies]);
+
+  const first = useCallback(() => goTo(0), [goTo]);
+  const prev = useCallback(() => goTo((selectedPly ?? totalPlies) - 1), [goTo, selectedPly, totalPlies]);
+  const next = useCallback(() => goTo((selectedPly ?? totalPlies) + 1), [goTo, selectedPly, totalPlies]);
+  const last = useCallback(() => setSelectedPly(null), []);
+
+  const active = history !== null;
+  const ignoreWhileTyping = (handler: () => void) => (e: KeyboardEvent) => {
+    if (!active) return;
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+    e.preventDefault();
+    handler();
+  };
+
+  useSingleKeys(
+    { key: Keys.ArrowLeft, callback: ignoreWhileTyping(prev) },
+    { key: Keys.ArrowRight, callback: ignoreWhileTyping(next) },
+    { key: 'Home', callback: ignoreWhileTyping(first) },
+    { key: 'End', callback: ignoreWhileTyping(last) },
+  );
+
+  // Rows are numbered from the fullmove number of the start position
+  const firstTurnNumber = parseInt(startFen?.split(' ')[5] ?? '1', 10) || 1;
+  const rows = useMemo(
+    () => (history ? historyRowsFromEngine(history, firstTurnNumber) : []),
+    [history, firstTurnNumber],
+  );
+
+  if (!history) return null;
+
+  const ply = selectedPly ?? totalPlies;
+  const entry = ply > 0 ? history[ply - 1] : undefined;
+  const ban = entry
+    ? entry.actionType === 'ban' ? entry.action : entry.bannedMove ?? null
+    : null;
+  const nextEntry = history[ply];
+  const nextBan = nextEntry?.actionType === 'ban' ? nextEntry.action : null;
+
+  return {
+    totalPlies,
+    ply,
+    isBrowsing: selectedPly !== null,
+    fen: entry?.fen ?? startFen ?? STANDARD_START_FEN,
+    ban: ban ? { from: ban.from, to: ban.to } : null,
+    nextBan: nextBan ? { from: nextBan.from, to: nextBan.to } : null,
+    rows,
+    goTo,
+    first,
+    prev,
+    next,
+    last,
+  };
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { GameService } from '@/services/gameService';
+import type { GameReport } from '@/utils/gameReport';
+import { replayActions, replayReachesFen } from '@/utils/pgn';
+import type { RecordedAction } from '@/utils/pgn';
+
+export interface GameReportRequest {
+  actions: RecordedAction[];
+  startFen?: string;
+}
+
+export interface GameReportResponse {
+  report: GameReport;
+}
+
+function computeReport(request: GameReportRequest): Promise<GameReport> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/gameReport.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<GameReportResponse>) => {
+      worker.terminate();
+      resolve(event.data.report);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Post-game report for a finished game, once `enabled`. The stored report is
+ * used when there is one; otherwise it is built in a Web Worker and, when
+ * `canStore` (the viewer played the game), stored for later visits.
+ * Moves that don't replay to `finalFen` are an incomplete record, which
+ * isn't reported on.
+ */
+export function useGameReport(
+  gameId: string | undefined,
+  startFen: string | null | undefined,
+  finalFen: string | null | undefined,
+  enabled: boolean,
+  canStore: boolean,
+) {
+  const [report, setReport] = useState<GameReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setReport(null);
+    setError(null);
+  }, [gameId]);
+
+  useEffect(() => {
+    if (!enabled || !gameId || report) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    (async () => {
+      const stored = await GameService.loadGameReport(gameId);
+      if (stored) return stored;
+
+      const actions = await GameService.loadGameMoves(gameId);
+      if (!replayReachesFen(replayActions(actions, startFen ?? undefined), finalFen)) return null;
+
+      const built = await computeReport({ actions, startFen: startFen ?? undefined });
+      if (canStore) {
+        GameService.saveGameReport(gameId, built).catch(err => {
+          console.error('[useGameReport] Failed to store report:', err);
+        });
+      }
+      return built;
+    })()
+      .then(result => {
+        if (cancelled) return;
+        if (result) setReport(result);
+        else setError('The recorded moves are incomplete');
+      })
+      .catch(err => {
+        console.error('[useGameReport] Failed to build report:', err);
+        if (!cancelled) setError('Could not build the report');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, startFen, finalFen, enabled, canStore, report]);
+
+  return { report, loading, error };
+}
@@ -3,16 +3,22 @@ import { GameService } from '@/services/gameService';
 import { useUnifiedGameStore } from '@/stores/unifiedGameStore';
 import type { Tables } from '@/types/database';
 
-// Type for live game broadcast payload
+// Type for live game broadcast payload - mirrors GameUpdatePayload in
+// supabase/functions/_shared/game-broadcast.ts, sent by every server path
 interface LiveGamePayload {
   // Complete game state
   id: string;
+  version?: number;
   current_fen: string;
   ban_chess_state: 'waiting_for_ban' | 'waiting_for_move';
   turn: 'white' | 'black';
   banning_player: 'white' | 'black' | null;
   status: 'active' | 'completed';
   winner: 'white' | 'black' | 'draw' | null;
+  end_reason?: string | null;
+  // Rating changes, once a rated game is completed
+  elo_change_white?: number | null;
+  elo_change_black?: number | null;
   
   // Action details
   lastAction?: {
@@ -25,10 +31,9 @@ interface LiveGamePayload {
     timestamp: string;
   };
   
-  // Engine state
-  history: unknown[];
-  legalMoves: unknown[];
-  nextActionType: 'move' | 'ban';
+  // Engine state (only on updates caused by a move or ban)
+  legalMoves?: unknown[];
+  nextActionType?: 'move' | 'ban';
   gameOver: boolean;
   result: string | null;
   
@@ -37,6 +42,29 @@ interface LiveGamePayload {
   black_player_id: string;
   white_player?: { username: string };
   black_player?: { username: string };
+  
+  // Open draw offer in a live game
+  draw_offered_by?: 'white' | 'black' | null;
+  // Open takeback request in a live game
+  takeback_requested_by?: 'white' | 'black' | null;
+  // Whether each side has a recorded action; abortable until both have
+  white_has_acted?: boolean;
+  black_has_acted?: boolean;
+  
+  // Rematch offer on a finished game; rematch_game_id is set once it's accepted
+  rematch_offered_by?: 'white' | 'black' | null;
+  parent_game_id?: string | null;
+  rematch_game_id?: string;
+  
+  // Server-authoritative clock
+  white_time_remaining?: number;
+  black_time_remaining?: number;
+  white_turn_start_time?: number | null;
+  black_turn_start_time?: number | null;
+  clock?: {
+    activeColor: 'white' | 'black' | null;
+    serverTime: number;
+  };
 }
 
 export function useGameSync(gameId: string | undefined) {
@@ -72,14 +100,27 @@ export function useGameSync(gameId: string | undefined) {
         // Convert broadcast payload to game format for store
         const gameUpdate: Partial<Tables<'games'>> = {
           id: livePayload.id,
+          version: livePayload.version,
           current_fen: livePayload.current_fen,
           ban_chess_state: livePayload.ban_chess_state,
           turn: livePayload.turn,
           banning_player: livePayload.banning_player,
           status: livePayload.status,
           winner: livePayload.winner,
+          end_reason: livePayload.end_reason ?? null,
+          elo_change_white: livePayload.elo_change_white ?? null,
+          elo_change_black: livePayload.elo_change_black ?? null,
           white_player_id: livePayload.white_player_id,
           black_player_id: livePayload.black_player_id,
+          white_time_remaining: livePayload.white_time_remaining,
+          black_time_remaining: livePayload.black_time_remaining,
+          white_turn_start_time: livePayload.white_turn_start_time,
+          black_turn_start_time: livePayload.black_turn_start_time,
+          draw_offered_by: livePayload.draw_offered_by ?? null,
+          takeback_requested_by: livePayload.takeback_requested_by ?? null,
+          white_has_acted: livePayload.white_has_acted,
+          black_has_acted: livePayload.black_has_acted,
+          rematch_offered_by: livePayload.rematch_offered_by ?? null,
           updated_at: livePayload.lastAction?.timestamp || new Date().toISOString(),
         };
         
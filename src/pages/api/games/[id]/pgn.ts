@@ -0,0 +1,91 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createSupabaseServerClient } from '@/utils/supabase-server';
+import { buildPgn, parsePgn, pgnMovetext, replayActions, replayReachesFen, type PgnGameInfo } from '@/utils/pgn';
+
+type ErrorData = { error: string };
+
+/**
+ * GET /api/games/[id]/pgn - download a game as a ban-annotated PGN file.
+ * Access mirrors the game_messages RLS policy: public games are open to
+ * everyone, private ones only to their two players.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<string | ErrorData>
+) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const gameId = req.query.id;
+  if (typeof gameId !== 'string' || !gameId) {
+    return res.status(400).json({ error: 'Missing game id' });
+  }
+
+  const supabase = createSupabaseServerClient(req, res);
+
+  const { data: game, error: gameError } = await supabase
+    .from('games')
+    .select('id, pgn, is_public, white_player_id, black_player_id, created_at, time_control, starting_fen, current_fen, winner, end_reason, white_player:profiles!games_white_player_id_fkey(username), black_player:profiles!games_black_player_id_fkey(username)')
+    .eq('id', gameId)
+    .maybeSingle();
+
+  if (gameError) {
+    console.error('[api/games/pgn] Failed to load game:', gameError);
+    return res.status(500).json({ error: 'Failed to load game' });
+  }
+
+  if (!game) {
+    return res.status(404).json({ error: 'Game not found' });
+  }
+
+  if (!game.is_public) {
+    const { data: { user } } = await supabase.auth.getUser();
+    const isParticipant = !!user && (user.id === game.white_player_id || user.id === game.black_player_id);
+    if (!isParticipant) {
+      // Don't reveal that a private game exists
+      return res.status(404).json({ error: 'Game not found' });
+    }
+  }
+
+  const info: PgnGameInfo = {
+    whiteName: game.white_player?.username,
+    blackName: game.black_player?.username,
+    createdAt: game.created_at,
+    timeControl: game.time_control,
+    winner: game.winner,
+    endReason: game.end_reason,
+    startingFen: game.starting_fen,
+  };
+  let pgn = game.pgn;
+
+  if (!pgn?.trim()) {
+    const { data: moves, error: movesError } = await supabase
+      .from('game_moves')
+      .select('action_type, action_data')
+      .eq('game_id', gameId)
+      .order('ply', { ascending: true });
+
+    if (movesError) {
+      console.error('[api/games/pgn] Failed to load moves:', movesError);
+      return res.status(500).json({ error: 'Failed to load moves' });
+    }
+
+    const engine = replayActions(moves ?? [], game.starting_fen ?? undefined);
+    if (!replayReachesFen(engine, game.current_fen)) {
+      console.error(`[api/games/pgn] Recorded moves of game ${gameId} don't reach its current position`);
+      return res.status(500).json({ error: 'Game record is incomplete' });
+    }
+
+    pgn = buildPgn(pgnMovetext(moves ?? [], game.starting_fen ?? undefined), info);
+  } else if (!parsePgn(pgn).headers.Event) {
+    // Stored before headers were written - wrap the bare move text
+    pgn = buildPgn(parsePgn(pgn).movetext, info);
+  }
+
+  res.setHeader('Content-Type', 'application/x-chess-pgn; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="banchess-${gameId}.pgn"`);
+  res.setHeader('Cache-Control', 'private, no-cache');
+  return res.status(200).send(`${pgn}\n`);
+}
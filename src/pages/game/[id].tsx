@@ -1,12 +1,28 @@
 import { useRouter } from 'next/router';
+import { Box, Button, Chip } from '@mui/material';
+import { Download, SmartToy } from '@mui/icons-material';
 import { useState, useCallback, useEffect } from 'react';
 import { useGameSync } from '@/hooks/useGameSync';
 import { useUnifiedGameStore } from '@/stores/unifiedGameStore';
 import { useAuth } from '@/contexts/AuthContext';
 import { GameService } from '@/services/gameService';
+import type { GameAction } from '@/services/gameService';
 import GameLayout from '@/components/GameLayout';
+import { DualClock } from '@/components/GameClock';
+import PromotionDialog, { getPromotionOptions } from '@/components/PromotionDialog';
+import { useAutoQueen } from '@/hooks/useAutoQueen';
+import { useGameReplay } from '@/hooks/useGameReplay';
+import ReplayControls from '@/components/ReplayControls';
+import RematchControls from '@/components/RematchControls';
+import DrawResignControls from '@/components/DrawResignControls';
+import TakebackControls from '@/components/TakebackControls';
+import BanTimer from '@/components/BanTimer';
+import BanAnalysisPanel from '@/components/BanAnalysisPanel';
+import GameReportPanel from '@/components/GameReportPanel';
 import type { HistoryEntry } from '@/components/MoveHistoryTable';
 import type { Tables } from '@/types/database';
+import { formatRatingChange } from '@/utils/rating';
+import type { GameEndReason, PromoteablePieces } from '@/types/game';
 
 // Types for database history entries
 interface BanHistoryEntry {
@@ -25,6 +41,9 @@ interface MoveHistoryEntry {
 
 type GameData = Tables<'games'>;
 
+// Long enough to see the ABORTED result before leaving the game
+const ABORT_REDIRECT_DELAY_MS = 2000;
+
 export default function GamePage() {
   const router = useRouter();
   const { id: gameId } = router.query;
@@ -32,14 +51,33 @@ export default function GamePage() {
   
   const engine = useUnifiedGameStore(s => s.engine);
   const playAction = useUnifiedGameStore(s => s.playAction);
+  const clock = useUnifiedGameStore(s => s.clock);
+  const status = useUnifiedGameStore(s => s.status);
+  const endReason = useUnifiedGameStore(s => s.endReason);
+  const eloChangeWhite = useUnifiedGameStore(s => s.eloChangeWhite);
+  const eloChangeBlack = useUnifiedGameStore(s => s.eloChangeBlack);
+  const version = useUnifiedGameStore(s => s.version);
+  const drawOfferedBy = useUnifiedGameStore(s => s.drawOfferedBy);
+  const takebackRequestedBy = useUnifiedGameStore(s => s.takebackRequestedBy);
+  const whiteHasActed = useUnifiedGameStore(s => s.whiteHasActed);
+  const blackHasActed = useUnifiedGameStore(s => s.blackHasActed);
+  const rematchOfferedBy = useUnifiedGameStore(s => s.rematchOfferedBy);
+  const rematchGameId = useUnifiedGameStore(s => s.rematchGameId);
   
   const [gameData, setGameData] = useState<GameData | null>(null);
   const [moveHistory, setMoveHistory] = useState<HistoryEntry[]>([]);
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [highlightedSquares, setHighlightedSquares] = useState<string[]>([]);
   const [lastBan, setLastBan] = useState<{ from: string; to: string } | null>(null);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string; options: PromoteablePieces[] } | null>(null);
+  const [rematchPending, setRematchPending] = useState(false);
+  const [offerPending, setOfferPending] = useState(false);
+  const autoQueen = useAutoQueen();
   
   useGameSync(gameId as string);
+  // Position history for stepping back through the game; refreshed on every new version
+  const replay = useGameReplay(gameId as string | undefined, version, gameData?.starting_fen, engine?.fen());
+  const isBrowsing = !!replay?.isBrowsing;
   
   // Load game data and build move history
   useEffect(() => {
@@ -117,17 +155,61 @@ export default function GamePage() {
     };
     
     loadGameData();
-    
-    // Subscribe to game updates
-    const unsubscribe = GameService.subscribeToGame(gameId, (payload) => {
-      if (payload.game || payload.new) {
-        loadGameData();
+  }, [gameId]);
+  
+  // Aborted before it started - back to the queue for another opponent
+  useEffect(() => {
+    if (status !== 'aborted') return;
+    const timer = setTimeout(() => router.push('/?queue=1'), ABORT_REDIRECT_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [status, router]);
+  
+  // Accepted rematch - both players move on to the new game
+  useEffect(() => {
+    if (rematchGameId) {
+      router.push(`/game/${rematchGameId}`);
+    }
+  }, [rematchGameId, router]);
+  
+  const handleRematch = useCallback(async (request: (id: string) => Promise<GameData | void>) => {
+    if (typeof gameId !== 'string') return;
+    setRematchPending(true);
+    try {
+      const game = await request(gameId);
+      // Don't wait for the broadcast if this request started the rematch
+      if (game && game.parent_game_id === gameId) {
+        router.push(`/game/${game.id}`);
       }
-    });
-    
-    return unsubscribe;
+    } catch (error) {
+      console.error('Rematch request failed:', error);
+    } finally {
+      setRematchPending(false);
+    }
+  }, [gameId, router]);
+  
+  const handleGameOffer = useCallback(async (request: (id: string) => Promise<void>) => {
+    if (typeof gameId !== 'string') return;
+    setOfferPending(true);
+    try {
+      await request(gameId);
+    } catch (error) {
+      console.error('Game request failed:', error);
+    } finally {
+      setOfferPending(false);
+    }
   }, [gameId]);
   
+  const submitAction = useCallback(async (action: GameAction) => {
+    try {
+      await playAction(action);
+      
+      // Update last ban if we just made a ban
+      setLastBan(action.ban ?? null);
+    } catch (error) {
+      console.error('Action failed:', error);
+    }
+  }, [playAction]);
+  
   const handleSquareClick = useCallback(async (square: string) => {
     if (!engine || engine.gameOver()) return;
     
@@ -157,21 +239,20 @@ export default function GamePage() {
     } else {
       // Second click - make the action
       if (highlightedSquares.includes(square)) {
-        const action = nextType === 'move'
-          ? { move: { from: selectedSquare, to: square } }
-          : { ban: { from: selectedSquare, to: square } };
-        
-        try {
-          await playAction(action);
-          
-          // Update last ban if we just made a ban
-          if (nextType === 'ban') {
-            setLastBan({ from: selectedSquare, to: square });
-          } else {
-            setLastBan(null);
+        if (nextType === 'move') {
+          const options = getPromotionOptions(engine.legalMoves(), selectedSquare, square);
+          if (options.length > 0 && !(autoQueen && options.includes('q'))) {
+            // Ask which piece to promote to; the move is sent once chosen
+            setPendingPromotion({ from: selectedSquare, to: square, options });
+            setSelectedSquare(null);
+            setHighlightedSquares([]);
+            return;
           }
-        } catch (error) {
-          console.error('Action failed:', error);
+          await submitAction({
+            move: { from: selectedSquare, to: square, ...(options.length > 0 && { promotion: 'q' }) },
+          });
+        } else {
+          await submitAction({ ban: { from: selectedSquare, to: square } });
         }
       }
       
@@ -179,7 +260,14 @@ export default function GamePage() {
       setSelectedSquare(null);
       setHighlightedSquares([]);
     }
-  }, [engine, selectedSquare, highlightedSquares, playAction]);
+  }, [engine, selectedSquare, highlightedSquares, autoQueen, submitAction]);
+  
+  const handlePromotionSelect = useCallback(async (piece: PromoteablePieces) => {
+    if (!pendingPromotion) return;
+    const { from, to } = pendingPromotion;
+    setPendingPromotion(null);
+    await submitAction({ move: { from, to, promotion: piece } });
+  }, [pendingPromotion, submitAction]);
   
   if (!engine || !gameData) {
     return <div style={{ padding: '20px' }}>Loading game...</div>;
@@ -192,31 +280,158 @@ export default function GamePage() {
   
   const turn = engine.turn;
   const nextAction = engine.nextActionType();
-  const isGameOver = engine.gameOver();
+  // The server can end a game the engine still considers live (e.g. on time)
+  const isGameOver = engine.gameOver() || (!!status && status !== 'active');
   const inCheck = engine.inCheck();
   const checkmate = engine.inCheckmate();
   const stalemate = engine.inStalemate();
   
   // Check if it's my turn
   const isMyTurn = myColor === turn;
-  const boardDisabled = !isMyTurn || isGameOver;
+  // A pending ban follows the same player's move; a pending move follows the opponent's ban
+  const lastActor = nextAction === 'ban' ? turn : turn === 'white' ? 'black' : 'white';
+  // Not from the version: takebacks move it forward too
+  const canRequestTakeback = lastActor === myColor && (myColor === 'white' ? whiteHasActed : blackHasActed);
+  // Games can be aborted until both sides have acted (the server's isAbortable)
+  const canAbort = !(whiteHasActed && blackHasActed);
+  // Earlier positions are view-only
+  const boardDisabled = !isMyTurn || isGameOver || isBrowsing;
+  
+  // Clocks follow the server; time_control is stored in milliseconds
+  const timeControl = gameData.time_control as { initial_time?: number; increment?: number; ban_time_limit?: number } | null;
+  const activeClockColor = isGameOver ? null : clock?.activeColor ?? null;
+  // Timed bans run from the banning player's turn start, like the clock
+  const banTimeLimit = timeControl?.ban_time_limit ?? null;
+  const banTurnStart = nextAction === 'ban' && activeClockColor ? clock?.[activeClockColor].turnStartTime ?? null : null;
   
   return (
-    <GameLayout
-      fen={engine.fen()}
-      onSquareClick={handleSquareClick}
-      highlightedSquares={highlightedSquares}
-      lastBan={lastBan}
-      orientation={orientation as 'white' | 'black'}
-      isBanMode={nextAction === 'ban'}
-      boardDisabled={boardDisabled}
-      turn={turn}
-      nextAction={nextAction}
-      inCheck={inCheck}
-      isGameOver={isGameOver}
-      checkmate={checkmate}
-      stalemate={stalemate}
-      moveHistory={moveHistory}
-    />
+    <>
+      <GameLayout
+        fen={isBrowsing && replay ? replay.fen : engine.fen()}
+        onSquareClick={handleSquareClick}
+        highlightedSquares={isBrowsing ? [] : highlightedSquares}
+        lastBan={isBrowsing && replay ? replay.ban : lastBan}
+        orientation={orientation as 'white' | 'black'}
+        isBanMode={nextAction === 'ban'}
+        boardDisabled={boardDisabled}
+        turn={turn}
+        nextAction={nextAction}
+        inCheck={inCheck}
+        isGameOver={isGameOver}
+        checkmate={checkmate}
+        stalemate={stalemate}
+        endReason={endReason as GameEndReason}
+        moveHistory={replay ? replay.rows : moveHistory}
+        selectedPly={isBrowsing ? replay?.ply : null}
+        onSelectPly={replay?.goTo}
+        additionalControls={
+          <>
+            {gameData.is_bot_game && (
+              <Chip icon={<SmartToy />} label="Bot game · unrated" size="small" variant="outlined" />
+            )}
+            {isGameOver && eloChangeWhite !== null && eloChangeBlack !== null && (
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Chip
+                  label={`White ${formatRatingChange(eloChangeWhite)}`}
+                  size="small"
+                  variant={myColor === 'white' ? 'filled' : 'outlined'}
+                  sx={{ flex: 1 }}
+                />
+                <Chip
+                  label={`Black ${formatRatingChange(eloChangeBlack)}`}
+                  size="small"
+                  variant={myColor === 'black' ? 'filled' : 'outlined'}
+                  sx={{ flex: 1 }}
+                />
+              </Box>
+            )}
+            {replay && <ReplayControls replay={replay} isLive={!isGameOver} />}
+            {isGameOver && (
+              <BanAnalysisPanel fen={replay ? replay.fen : engine.fen()} playedBan={replay?.nextBan} />
+            )}
+            {isGameOver && replay && (
+              <GameReportPanel
+                gameId={gameData.id}
+                startFen={gameData.starting_fen}
+                finalFen={engine.fen()}
+                canStore={!!myColor}
+                onSelectPly={replay.goTo}
+              />
+            )}
+            {!isGameOver && myColor && (
+              <DrawResignControls
+                myColor={myColor}
+                drawOfferedBy={drawOfferedBy}
+                pending={offerPending}
+                canAbort={canAbort}
+                onAbort={() => handleGameOffer(GameService.abortGame.bind(GameService))}
+                onResign={() => handleGameOffer(GameService.resignGame.bind(GameService))}
+                onOfferDraw={() => handleGameOffer(GameService.offerDraw.bind(GameService))}
+                onAcceptDraw={() => handleGameOffer(GameService.acceptDraw.bind(GameService))}
+                onDeclineDraw={() => handleGameOffer(GameService.declineDraw.bind(GameService))}
+              />
+            )}
+            {/* Bots don't answer takeback or rematch requests */}
+            {!isGameOver && myColor && !gameData.is_bot_game && (
+              <TakebackControls
+                myColor={myColor}
+                takebackRequestedBy={takebackRequestedBy}
+                canRequest={canRequestTakeback}
+                pending={offerPending}
+                onRequest={() => handleGameOffer(GameService.requestTakeback.bind(GameService))}
+                onAccept={() => handleGameOffer(GameService.acceptTakeback.bind(GameService))}
+                onDecline={() => handleGameOffer(GameService.declineTakeback.bind(GameService))}
+              />
+            )}
+            {isGameOver && myColor && !gameData.is_bot_game && (
+              <RematchControls
+                myColor={myColor}
+                rematchOfferedBy={rematchOfferedBy}
+                pending={rematchPending}
+                onOffer={() => handleRematch(GameService.offerRematch.bind(GameService))}
+                onAccept={() => handleRematch(GameService.acceptRematch.bind(GameService))}
+                onDecline={() => handleRematch(GameService.declineRematch.bind(GameService))}
+              />
+            )}
+            {banTimeLimit && banTurnStart && (
+              <BanTimer
+                deadline={banTurnStart + banTimeLimit}
+                limit={banTimeLimit}
+                isMine={isMyTurn}
+              />
+            )}
+            {clock && (
+              <DualClock
+                whiteTime={clock.white.timeRemaining}
+                blackTime={clock.black.timeRemaining}
+                timeControl={{
+                  initialTime: timeControl?.initial_time ?? clock.white.timeRemaining,
+                  increment: timeControl?.increment ?? 0,
+                }}
+                activeColor={activeClockColor}
+                myColor={myColor}
+                turnStartTime={activeClockColor ? clock[activeClockColor].turnStartTime : null}
+              />
+            )}
+            <Button
+              href={`/api/games/${gameId}/pgn`}
+              startIcon={<Download />}
+              size="small"
+              variant="outlined"
+              fullWidth
+            >
+              Download PGN
+            </Button>
+          </>
+        }
+      />
+      <PromotionDialog
+        open={!!pendingPromotion}
+        color={turn}
+        options={pendingPromotion?.options ?? []}
+        onSelect={handlePromotionSelect}
+        onCancel={() => setPendingPromotion(null)}
+      />
+    </>
   );
 }
\ No newline at end of file
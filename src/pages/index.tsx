@@ -24,6 +24,16 @@ export default function Home() {
     setMounted(true);
   }, []);
 
+  // ?queue=1 (e.g. after an aborted game) rejoins matchmaking straight away
+  const requeue = router.query.queue === '1';
+  useEffect(() => {
+    if (!requeue || !user || !matchmakingRef.current) return;
+    router.replace('/', undefined, { shallow: true });
+    matchmakingRef.current.triggerFindMatch().catch(error => {
+      console.error('Failed to rejoin matchmaking:', error);
+    });
+  }, [requeue, user, router]);
+
   // Development-only keyboard shortcut for test automation
   useEffect(() => {
     if (process.env.NODE_ENV !== 'development') return;
@@ -1,8 +1,21 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { BanChess } from 'ban-chess.ts';
-import type { Action } from 'ban-chess.ts';
+import type { Action, Color } from 'ban-chess.ts';
+import { Box, Button } from '@mui/material';
+import { FileOpen, Shuffle } from '@mui/icons-material';
 import GameLayout from '@/components/GameLayout';
 import type { HistoryEntry } from '@/components/MoveHistoryTable';
+import PromotionDialog, { getPromotionOptions } from '@/components/PromotionDialog';
+import { useAutoQueen } from '@/hooks/useAutoQueen';
+import ImportGameDialog from '@/components/ImportGameDialog';
+import ComputerOpponentControls from '@/components/ComputerOpponentControls';
+import BanAnalysisPanel from '@/components/BanAnalysisPanel';
+import { useBanChessAi } from '@/hooks/useBanChessAi';
+import type { AiLevel } from '@/utils/banChessAi';
+import type { ImportedGame } from '@/utils/pgn';
+import { historyRowsFromEngine } from '@/utils/moveHistory';
+import { startingFenFor } from '@/utils/startPosition';
+import type { PromoteablePieces } from '@/types/game';
 
 function LocalGamePage() {
   const [game, setGame] = useState(() => new BanChess());
@@ -12,9 +25,106 @@ function LocalGamePage() {
   const [highlightedSquares, setHighlightedSquares] = useState<string[]>([]);
   const [lastBan, setLastBan] = useState<{ from: string; to: string } | null>(null);
   const [turnNumber, setTurnNumber] = useState(1);
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string; options: PromoteablePieces[] } | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
+  const autoQueen = useAutoQueen();
+  // null = hot-seat play; otherwise the computer's level
+  const [aiLevel, setAiLevel] = useState<AiLevel | null>(null);
+  const [aiColor, setAiColor] = useState<Color>('black');
+  const [aiThinking, setAiThinking] = useState(false);
+  const { requestAction } = useBanChessAi();
+  const isAiTurn = aiLevel !== null && game.turn === aiColor && !game.gameOver();
+
+  const applyAction = useCallback((action: Action) => {
+    const nextType = 'ban' in action ? 'ban' : 'move';
+    const { from, to } = 'ban' in action ? action.ban : action.move;
+    
+    // Capture who is acting BEFORE we play the action
+    const currentTurn = game.turn;
+    
+    const result = game.play(action);
+    
+    if (!result.success) return;
+    
+    // Update game state
+    const newGame = new BanChess(game.fen());
+    setGame(newGame);
+    
+    // Update history tracking based on Ban Chess flow:
+    // 1. Black bans (before White's move) -> whiteBan in row 1
+    // 2. White moves -> whiteMove in row 1
+    // 3. White bans (before Black's move) -> blackBan in row 1
+    // 4. Black moves -> blackMove in row 1
+    // 5. Black bans (before White's move) -> whiteBan in row 2
+    // etc...
+    
+    if (nextType === 'ban') {
+      const banNotation = `${from}→${to}`;
+      setLastBan({ from, to });
+      
+      // Who is banning and what column does it go in?
+      // Black bans -> whiteBan (restricts White's move)
+      // White bans -> blackBan (restricts Black's move)
+      const banKey = currentTurn === 'black' ? 'whiteBan' : 'blackBan';
+      
+      // Check if we need to start a new row
+      // New row starts when Black bans after completing a full turn
+      const needNewRow = banKey === 'whiteBan' && currentEntry.blackMove;
+      
+      if (needNewRow) {
+        // Save current row and start new one
+        setMoveHistory(prev => [...prev, currentEntry as HistoryEntry]);
+        setCurrentEntry({
+          turnNumber: turnNumber + 1,
+          [banKey]: banNotation,
+        });
+        setTurnNumber(prev => prev + 1);
+      } else {
+        // Add to current row
+        setCurrentEntry({
+          ...currentEntry,
+          turnNumber: currentEntry.turnNumber || turnNumber,
+          [banKey]: banNotation,
+        });
+      }
+    } else if (result.san) {
+      // Use the turn we captured BEFORE playing the move
+      const moveKey = currentTurn === 'white' ? 'whiteMove' : 'blackMove';
+      
+      setCurrentEntry({
+        ...currentEntry,
+        turnNumber: currentEntry.turnNumber || turnNumber,
+        [moveKey]: result.san,
+      });
+      
+      setLastBan(null);
+    }
+  }, [game, currentEntry, turnNumber]);
+
+  // The computer takes its bans and moves as they come due
+  useEffect(() => {
+    if (!isAiTurn || !aiLevel) return;
+
+    let cancelled = false;
+    setAiThinking(true);
+    requestAction(game.fen(), aiLevel)
+      .then(action => {
+        if (cancelled) return;
+        setAiThinking(false);
+        if (action) applyAction(action);
+      })
+      .catch(error => {
+        console.error('[LocalGamePage] Computer failed to choose an action:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      setAiThinking(false);
+    };
+  }, [isAiTurn, aiLevel, game, requestAction, applyAction]);
 
   const handleSquareClick = useCallback((square: string) => {
-    if (game.gameOver()) return;
+    if (game.gameOver() || isAiTurn) return;
 
     const nextType = game.nextActionType();
     
@@ -42,69 +152,18 @@ function LocalGamePage() {
     } else {
       // Second click - make the action
       if (highlightedSquares.includes(square)) {
-        const action: Action = nextType === 'move'
-          ? { move: { from: selectedSquare, to: square } }
-          : { ban: { from: selectedSquare, to: square } };
-        
-        // Capture who is acting BEFORE we play the action
-        const currentTurn = game.turn;
-        
-        const result = game.play(action);
-        
-        if (result.success) {
-          // Update game state
-          const newGame = new BanChess(game.fen());
-          setGame(newGame);
-          
-          // Update history tracking based on Ban Chess flow:
-          // 1. Black bans (before White's move) -> whiteBan in row 1
-          // 2. White moves -> whiteMove in row 1
-          // 3. White bans (before Black's move) -> blackBan in row 1
-          // 4. Black moves -> blackMove in row 1
-          // 5. Black bans (before White's move) -> whiteBan in row 2
-          // etc...
-          
-          if (nextType === 'ban') {
-            const banNotation = `${selectedSquare}→${square}`;
-            setLastBan({ from: selectedSquare, to: square });
-            
-            // Who is banning and what column does it go in?
-            // Black bans -> whiteBan (restricts White's move)
-            // White bans -> blackBan (restricts Black's move)
-            const banKey = currentTurn === 'black' ? 'whiteBan' : 'blackBan';
-            
-            // Check if we need to start a new row
-            // New row starts when Black bans after completing a full turn
-            const needNewRow = banKey === 'whiteBan' && currentEntry.blackMove;
-            
-            if (needNewRow) {
-              // Save current row and start new one
-              setMoveHistory(prev => [...prev, currentEntry as HistoryEntry]);
-              setCurrentEntry({
-                turnNumber: turnNumber + 1,
-                [banKey]: banNotation,
-              });
-              setTurnNumber(prev => prev + 1);
-            } else {
-              // Add to current row
-              setCurrentEntry({
-                ...currentEntry,
-                turnNumber: currentEntry.turnNumber || turnNumber,
-                [banKey]: banNotation,
-              });
-            }
-          } else if (nextType === 'move' && result.san) {
-            // Use the turn we captured BEFORE playing the move
-            const moveKey = currentTurn === 'white' ? 'whiteMove' : 'blackMove';
-            
-            setCurrentEntry({
-              ...currentEntry,
-              turnNumber: currentEntry.turnNumber || turnNumber,
-              [moveKey]: result.san,
+        if (nextType === 'move') {
+          const options = getPromotionOptions(game.legalMoves(), selectedSquare, square);
+          if (options.length > 0 && !(autoQueen && options.includes('q'))) {
+            // Ask which piece to promote to; the move is played once chosen
+            setPendingPromotion({ from: selectedSquare, to: square, options });
+          } else {
+            applyAction({
+              move: { from: selectedSquare, to: square, ...(options.length > 0 && { promotion: 'q' as const }) },
             });
-            
-            setLastBan(null);
           }
+        } else {
+          applyAction({ ban: { from: selectedSquare, to: square } });
         }
       }
       
@@ -112,16 +171,40 @@ function LocalGamePage() {
       setSelectedSquare(null);
       setHighlightedSquares([]);
     }
-  }, [game, selectedSquare, highlightedSquares, currentEntry, turnNumber]);
+  }, [game, isAiTurn, selectedSquare, highlightedSquares, autoQueen, applyAction]);
 
-  const resetGame = () => {
-    setGame(new BanChess());
+  const handlePromotionSelect = useCallback((piece: PromoteablePieces) => {
+    if (!pendingPromotion) return;
+    const { from, to } = pendingPromotion;
+    setPendingPromotion(null);
+    applyAction({ move: { from, to, promotion: piece } });
+  }, [pendingPromotion, applyAction]);
+
+  const handleImport = useCallback(({ engine, startFen }: ImportedGame) => {
+    // Rows continue from the fullmove number of an imported start position
+    const firstTurnNumber = parseInt(startFen?.split(' ')[5] ?? '1', 10) || 1;
+    const rows = historyRowsFromEngine(engine.history(), firstTurnNumber);
+    const lastRow = rows[rows.length - 1];
+
+    setGame(new BanChess(engine.fen()));
+    setMoveHistory(rows.slice(0, -1));
+    setCurrentEntry(lastRow ?? {});
+    setTurnNumber(lastRow?.turnNumber ?? firstTurnNumber);
+    setLastBan(engine.currentBannedMove);
+    setSelectedSquare(null);
+    setHighlightedSquares([]);
+    setPendingPromotion(null);
+  }, []);
+
+  const resetGame = (startFen?: string) => {
+    setGame(new BanChess(startFen));
     setMoveHistory([]);
     setCurrentEntry({});
     setSelectedSquare(null);
     setHighlightedSquares([]);
     setLastBan(null);
     setTurnNumber(1);
+    setPendingPromotion(null);
   };
 
   const turn = game.turn;
@@ -132,22 +215,66 @@ function LocalGamePage() {
   const stalemate = game.inStalemate();
 
   return (
-    <GameLayout
-      fen={game.fen()}
-      onSquareClick={handleSquareClick}
-      highlightedSquares={highlightedSquares}
-      lastBan={lastBan}
-      orientation="white"
-      isBanMode={nextAction === 'ban'}
-      turn={turn}
-      nextAction={nextAction}
-      inCheck={inCheck}
-      isGameOver={isGameOver}
-      checkmate={checkmate}
-      stalemate={stalemate}
-      moveHistory={[...moveHistory, ...(currentEntry.turnNumber ? [currentEntry as HistoryEntry] : [])]}
-      onNewGame={resetGame}
-    />
+    <>
+      <GameLayout
+        fen={game.fen()}
+        onSquareClick={handleSquareClick}
+        highlightedSquares={highlightedSquares}
+        lastBan={lastBan}
+        orientation={aiLevel && aiColor === 'white' ? 'black' : 'white'}
+        isBanMode={nextAction === 'ban'}
+        turn={turn}
+        nextAction={nextAction}
+        inCheck={inCheck}
+        isGameOver={isGameOver}
+        checkmate={checkmate}
+        stalemate={stalemate}
+        moveHistory={[...moveHistory, ...(currentEntry.turnNumber ? [currentEntry as HistoryEntry] : [])]}
+        onNewGame={() => resetGame()}
+        additionalControls={
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+            <ComputerOpponentControls
+              level={aiLevel}
+              color={aiColor}
+              thinking={aiThinking}
+              onLevelChange={setAiLevel}
+              onColorChange={setAiColor}
+            />
+            <BanAnalysisPanel fen={game.fen()} />
+            <Button
+              startIcon={<Shuffle />}
+              onClick={() => resetGame(startingFenFor('chess960'))}
+              size="small"
+              variant="outlined"
+              fullWidth
+            >
+              New Chess960 game
+            </Button>
+            <Button
+              startIcon={<FileOpen />}
+              onClick={() => setImportOpen(true)}
+              size="small"
+              variant="outlined"
+              fullWidth
+            >
+              Import PGN / FEN
+            </Button>
+          </Box>
+        }
+      />
+      <ImportGameDialog
+        open={importOpen}
+        onClose={() => setImportOpen(false)}
+        onImport={handleImport}
+      />
+      <PromotionDialog
+        open={!!pendingPromotion}
+        color={turn}
+        options={pendingPromotion?.options ?? []}
+        onSelect={handlePromotionSelect}
+        onCancel={() => setPendingPromotion(null)}
+      />
+    </>
   );
 }
 
@@ -0,0 +1,212 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import { BanChess } from 'ban-chess.ts';
+import type { Ban } from 'ban-chess.ts';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from '@mui/material';
+import { CheckCircle, Cancel, SkipNext } from '@mui/icons-material';
+import GameLayout from '@/components/GameLayout';
+import { withAuth } from '@/components/with-auth';
+import { PuzzleService } from '@/services/puzzleService';
+import type { Puzzle, PuzzleAttempt, PuzzleKind, PuzzleResult } from '@/services/puzzleService';
+import { getErrorMessage } from '@/utils/type-guards';
+import { formatRatingChange } from '@/utils/rating';
+
+const KIND_LABELS: Record<PuzzleKind, string> = {
+  ban_mate: 'Ban-mate',
+  winning_ban: 'Winning ban',
+};
+
+const KIND_PROMPTS: Record<PuzzleKind, string> = {
+  ban_mate: 'Your opponent is in check with a single escape. Ban it.',
+  winning_ban: 'One ban wins material or the game. Find it.',
+};
+
+function PuzzlesPage() {
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [rating, setRating] = useState<number | null>(null);
+  const [result, setResult] = useState<PuzzleResult | null>(null);
+  const [attempts, setAttempts] = useState<PuzzleAttempt[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
+  const [highlightedSquares, setHighlightedSquares] = useState<string[]>([]);
+
+  const engine = useMemo(() => (puzzle ? new BanChess(puzzle.fen) : new BanChess()), [puzzle]);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const history = await PuzzleService.getHistory();
+      setAttempts(history.attempts);
+    } catch (err) {
+      console.error('[PuzzlesPage] Failed to load history:', err);
+    }
+  }, []);
+
+  const loadPuzzle = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    setResult(null);
+    setSelectedSquare(null);
+    setHighlightedSquares([]);
+    try {
+      const next = await PuzzleService.nextPuzzle();
+      setPuzzle(next.puzzle);
+      setRating(next.rating);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadPuzzle();
+    void loadHistory();
+  }, [loadPuzzle, loadHistory]);
+
+  const submitBan = useCallback(async (ban: Ban) => {
+    if (!puzzle) return;
+    setSubmitting(true);
+    try {
+      const outcome = await PuzzleService.submitSolution(puzzle.id, ban);
+      setResult(outcome);
+      setRating(outcome.rating);
+      void loadHistory();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setSubmitting(false);
+    }
+  }, [puzzle, loadHistory]);
+
+  const handleSquareClick = useCallback((square: string) => {
+    if (!puzzle || result || submitting) return;
+
+    const bans = engine.legalBans();
+    if (!selectedSquare) {
+      const destinations = bans.filter(b => b.from === square).map(b => b.to);
+      if (destinations.length > 0) {
+        setSelectedSquare(square);
+        setHighlightedSquares(destinations);
+      }
+      return;
+    }
+
+    if (highlightedSquares.includes(square)) {
+      void submitBan({ from: selectedSquare, to: square });
+    }
+    setSelectedSquare(null);
+    setHighlightedSquares([]);
+  }, [puzzle, result, submitting, engine, selectedSquare, highlightedSquares, submitBan]);
+
+  // The solver is the banner, so the board faces them
+  const banner = engine.turn;
+
+  return (
+    <GameLayout
+      fen={engine.fen()}
+      onSquareClick={handleSquareClick}
+      highlightedSquares={highlightedSquares}
+      lastBan={result?.solution ?? null}
+      orientation={banner}
+      isBanMode
+      boardDisabled={!puzzle || !!result || submitting}
+      turn={banner}
+      nextAction="ban"
+      inCheck={engine.inCheck()}
+      moveHistory={[]}
+      additionalControls={
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+          <Typography variant="subtitle2">
+            Puzzle rating: {rating ?? '…'}
+          </Typography>
+
+          {loading && <CircularProgress size={24} sx={{ alignSelf: 'center' }} />}
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {!loading && !puzzle && !error && (
+            <Alert severity="info">
+              You have tried every puzzle. New ones are added as games finish.
+            </Alert>
+          )}
+
+          {puzzle && !loading && (
+            <>
+              <Box sx={{ display: 'flex', gap: 1 }}>
+                <Chip label={KIND_LABELS[puzzle.kind]} size="small" color="error" />
+                <Chip label={`Rated ${puzzle.rating}`} size="small" variant="outlined" />
+              </Box>
+              {!result && (
+                <Typography variant="body2" color="text.secondary">
+                  {KIND_PROMPTS[puzzle.kind]}
+                </Typography>
+              )}
+            </>
+          )}
+
+          {result && (
+            <Alert severity={result.solved ? 'success' : 'warning'}>
+              {result.solved
+                ? 'Correct!'
+                : `The best ban was ${result.solution.from}→${result.solution.to}.`}
+              {result.ratingChange !== null && ` Rating ${formatRatingChange(result.ratingChange)}.`}
+            </Alert>
+          )}
+
+          {(result || (!loading && !puzzle)) && (
+            <Button
+              startIcon={<SkipNext />}
+              onClick={() => void loadPuzzle()}
+              size="small"
+              variant="contained"
+              fullWidth
+            >
+              Next puzzle
+            </Button>
+          )}
+
+          {attempts.length > 0 && (
+            <>
+              <Typography variant="subtitle2" sx={{ mt: 1 }}>
+                Recent attempts
+              </Typography>
+              <List dense disablePadding>
+                {attempts.map(attempt => (
+                  <ListItem key={attempt.id} disableGutters dense>
+                    <ListItemText
+                      primary={
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          {attempt.solved
+                            ? <CheckCircle fontSize="small" color="success" />
+                            : <Cancel fontSize="small" color="error" />}
+                          <Typography variant="body2">
+                            {attempt.puzzles ? KIND_LABELS[attempt.puzzles.kind] : 'Puzzle'}
+                          </Typography>
+                          <Typography variant="body2" color="text.secondary" sx={{ ml: 'auto', fontFamily: 'monospace' }}>
+                            {formatRatingChange(attempt.rating_change)}
+                          </Typography>
+                        </Box>
+                      }
+                    />
+                  </ListItem>
+                ))}
+              </List>
+            </>
+          )}
+        </Box>
+      }
+    />
+  );
+}
+
+export default withAuth(PuzzlesPage);
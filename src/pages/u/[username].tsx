@@ -1,9 +1,22 @@
 import type { GetServerSideProps } from 'next';
 import { useRouter } from 'next/router';
 import { useState, useEffect } from 'react';
-import { Container, Typography, Paper, Box, Avatar, Divider, Chip, CircularProgress } from '@mui/material';
+import {
+  Container,
+  Typography,
+  Paper,
+  Box,
+  Avatar,
+  Divider,
+  Chip,
+  CircularProgress,
+  List,
+  ListItemButton,
+  ListItemText,
+} from '@mui/material';
 import { supabaseBrowser } from '@/utils/supabase-browser';
-import { EmojiEvents, Timer, VideogameAsset } from '@mui/icons-material';
+import { EmojiEvents, Timer, VideogameAsset, ShowChart } from '@mui/icons-material';
+import { formatRating, formatRatingChange } from '@/utils/rating';
 
 interface ProfilePageProps {
   username: string;
@@ -14,6 +27,8 @@ interface ProfileData {
   username: string;
   created_at: string;
   avatar_url?: string;
+  elo_rating: number | null;
+  rating_deviation: number;
 }
 
 interface GameStats {
@@ -23,10 +38,19 @@ interface GameStats {
   games_drawn: number;
 }
 
+interface RatedGame {
+  id: string;
+  opponent: string | null;
+  result: 'win' | 'loss' | 'draw';
+  change: number;
+  played_at: string;
+}
+
 export default function ProfilePage({ username }: ProfilePageProps) {
   const router = useRouter();
   const [profile, setProfile] = useState<ProfileData | null>(null);
   const [stats, setStats] = useState<GameStats | null>(null);
+  const [ratedGames, setRatedGames] = useState<RatedGame[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -88,6 +112,34 @@ export default function ProfilePage({ username }: ProfilePageProps) {
 
           setStats(stats);
         }
+
+        // Fetch recent rating changes
+        const { data: rated, error: ratedError } = await supabaseBrowser()
+          .from('games')
+          .select(`
+            id, white_player_id, black_player_id, winner, elo_change_white, elo_change_black, updated_at,
+            white_player:profiles!games_white_player_id_fkey(username),
+            black_player:profiles!games_black_player_id_fkey(username)
+          `)
+          .or(`white_player_id.eq.${profileData.id},black_player_id.eq.${profileData.id}`)
+          .eq('is_rated', true)
+          .not('elo_change_white', 'is', null)
+          .order('updated_at', { ascending: false })
+          .limit(10);
+
+        if (!ratedError && rated) {
+          setRatedGames(rated.map(game => {
+            const isWhite = game.white_player_id === profileData.id;
+            const color = isWhite ? 'white' : 'black';
+            return {
+              id: game.id,
+              opponent: (isWhite ? game.black_player : game.white_player)?.username ?? null,
+              result: game.winner === 'draw' ? 'draw' : game.winner === color ? 'win' : 'loss',
+              change: (isWhite ? game.elo_change_white : game.elo_change_black) ?? 0,
+              played_at: game.updated_at,
+            };
+          }));
+        }
       } catch (err) {
         console.error('Error loading profile:', err);
         setError('An error occurred while loading the profile');
@@ -147,6 +199,12 @@ export default function ProfilePage({ username }: ProfilePageProps) {
                   <Typography variant="h4" gutterBottom>
                     u/{profile.username}
                   </Typography>
+                  {profile.elo_rating !== null && (
+                    <Typography variant="h6" color="text.secondary" gutterBottom>
+                      Rating {formatRating(profile.elo_rating, profile.rating_deviation)}
+                      {' '}± {Math.round(profile.rating_deviation)}
+                    </Typography>
+                  )}
                   <Typography variant="body2" color="text.secondary">
                     Member since {new Date(profile.created_at).toLocaleDateString()}
                   </Typography>
@@ -192,6 +250,33 @@ export default function ProfilePage({ username }: ProfilePageProps) {
                   No games played yet
                 </Typography>
               )}
+
+              {ratedGames.length > 0 && (
+                <>
+                  <Divider sx={{ my: 3 }} />
+
+                  <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <ShowChart /> Recent Rated Games
+                  </Typography>
+                  <List dense disablePadding>
+                    {ratedGames.map(game => (
+                      <ListItemButton key={game.id} onClick={() => router.push(`/game/${game.id}`)}>
+                        <ListItemText
+                          primary={`${game.result === 'win' ? 'Won' : game.result === 'loss' ? 'Lost' : 'Drew'} vs ${game.opponent ?? 'unknown'}`}
+                          secondary={new Date(game.played_at).toLocaleDateString()}
+                        />
+                        <Typography
+                          variant="body2"
+                          sx={{ fontFamily: 'monospace' }}
+                          color={game.change > 0 ? 'success.main' : game.change < 0 ? 'error.main' : 'text.secondary'}
+                        >
+                          {formatRatingChange(game.change)}
+                        </Typography>
+                      </ListItemButton>
+                    ))}
+                  </List>
+                </>
+              )}
             </Box>
           </Paper>
         </Box>
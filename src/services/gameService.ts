@@ -2,29 +2,68 @@ import { supabase, invokeWithAuth } from "../utils/supabase";
 import type { PlayerColor } from "@/types/game";
 import type { ChatMessage, ChatMessageType } from "@/types/chat";
 import { BanChess } from "ban-chess.ts";
+import { FunctionsFetchError, FunctionsHttpError } from "@supabase/supabase-js";
 import type { Tables } from "@/types/database";
 import { ReliableChannel, MessageDeduplicator } from "@/utils/realtime-reliability";
+import { STANDARD_START_FEN, validateStartingFen } from "@/utils/startPosition";
+import type { StartPositionKind } from "@/utils/startPosition";
+import { GAME_REPORT_VERSION, type GameReport } from "@/utils/gameReport";
+import { TIME_CONTROL_PRESETS } from "@/utils/timeControlPresets";
 
 export interface GameAction {
   move?: { from: string; to: string; promotion?: string };
   ban?: { from: string; to: string };
+  resign?: boolean;
+  drawOffer?: boolean;
+  drawAccept?: boolean;
+  drawDecline?: boolean;
+  abort?: boolean;
 }
 
 // Use the actual database type for games
 export type GameData = Tables<'games'>;
 
+/**
+ * Thrown when the server rejected an action because the game moved on
+ * since the client last saw it. Carries the current game row for resyncing.
+ */
+export class StaleGameStateError extends Error {
+  game: GameData | null;
+
+  constructor(game: GameData | null) {
+    super('Game state has changed, please resync');
+    this.name = 'StaleGameStateError';
+    this.game = game;
+  }
+}
+
 export class GameService {
+  /**
+   * Creates a game between two players. `startingFen` (6 or 7 fields, e.g.
+   * from chess960Fen()) starts it from a custom position; it is rejected if
+   * Ban Chess can't be played from it.
+   */
   static async createGame(
     whitePlayerId: string,
     blackPlayerId: string,
-    timeControl?: { minutes: number; increment: number }
+    timeControl?: { minutes: number; increment: number },
+    startingFen?: string
   ): Promise<GameData> {
-    const engine = new BanChess();
+    const start = validateStartingFen(startingFen ?? STANDARD_START_FEN);
+    if (!start.valid) {
+      throw new Error(`Invalid starting position: ${start.error}`);
+    }
+    const engine = new BanChess(start.fen);
     
     const { data, error } = await supabase
       .from('games')
       .insert({
         ban_chess_state: engine.fen(),
+        current_fen: start.fen,
+        starting_fen: start.fen === STANDARD_START_FEN ? null : start.fen,
+        // Side to move on the board; the other side bans first
+        turn: engine.turn === 'white' ? 'black' : 'white',
+        banning_player: engine.turn,
         white_player_id: whitePlayerId,
         black_player_id: blackPlayerId,
         status: 'active',
@@ -51,8 +90,20 @@ export class GameService {
     return data;
   }
   
+  // Recorded bans and moves in play order
+  static async loadGameMoves(gameId: string): Promise<Tables<'game_moves'>[]> {
+    const { data, error } = await supabase
+      .from('game_moves')
+      .select('*')
+      .eq('game_id', gameId)
+      .order('ply', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+  
   // Load completed game with full move history for replay
-  static async loadCompletedGame(gameId: string): Promise<{ game: GameData; moves: unknown[] }> {
+  static async loadCompletedGame(gameId: string): Promise<{ game: GameData; moves: Tables<'game_moves'>[] }> {
     const [gameResult, movesResult] = await Promise.all([
       supabase
         .from('games')
@@ -76,69 +127,139 @@ export class GameService {
     };
   }
 
-  static async playAction(gameId: string, action: GameAction): Promise<void> {
-    console.log('GameService.playAction called:', { gameId, action });
-    
-    // Debug: Check if we have a session before making the request
-    const { data: { session } } = await supabase.auth.getSession();
-    console.log('Current session before playAction:', {
-      hasSession: !!session,
-      userId: session?.user?.id,
-      tokenPreview: session?.access_token ? session.access_token.substring(0, 30) + '...' : 'NO TOKEN'
-    });
-    
-    const { data, error } = await invokeWithAuth('game-action', {
-      body: { gameId, action }
+  /**
+   * Submits a game action (move, ban, resignation or draw offer). `actionId`
+   * makes the call safe to retry: the server returns the original result for
+   * an ID it has already applied.
+   * Network failures are rethrown as the FunctionsFetchError so callers can retry.
+   */
+  static async playAction(gameId: string, action: GameAction, expectedVersion?: number, actionId?: string): Promise<void> {
+    const { error } = await invokeWithAuth('game-action', {
+      body: { gameId, action, expectedVersion, actionId }
     });
 
+    if (error instanceof FunctionsFetchError) {
+      throw error;
+    }
+
+    if (error instanceof FunctionsHttpError && error.context?.status === 409) {
+      const body = await error.context.json().catch(() => null);
+      throw new StaleGameStateError(body?.game ?? null);
+    }
+
     if (error) {
       console.error('GameService.playAction error:', error);
       throw new Error(error.message || 'Failed to play action');
     }
-    console.log('GameService.playAction success:', data);
   }
 
   static async resignGame(gameId: string): Promise<void> {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) throw new Error('Not authenticated');
+    await this.playAction(gameId, { resign: true });
+  }
 
-    const { data: game } = await supabase
-      .from('games')
-      .select('white_player_id, black_player_id')
-      .eq('id', gameId)
-      .single();
+  /**
+   * Offers a draw. Offering when the opponent already has an open offer accepts it.
+   */
+  static async offerDraw(gameId: string): Promise<void> {
+    await this.playAction(gameId, { drawOffer: true });
+  }
 
-    if (!game) throw new Error('Game not found');
+  static async acceptDraw(gameId: string): Promise<void> {
+    await this.playAction(gameId, { drawAccept: true });
+  }
 
-    const winner = user.id === game.white_player_id ? 'black' : 'white';
+  static async declineDraw(gameId: string): Promise<void> {
+    await this.playAction(gameId, { drawDecline: true });
+  }
 
-    const { error } = await supabase
-      .from('games')
-      .update({
-        status: 'completed',
-        winner,
-        result_reason: 'resignation',
-      })
-      .eq('id', gameId);
+  /**
+   * Aborts a game in which a side hasn't acted yet. No result, no rating change.
+   */
+  static async abortGame(gameId: string): Promise<void> {
+    await this.playAction(gameId, { abort: true });
+  }
 
-    if (error) throw error;
+  /**
+   * Offers a rematch of a finished game. If the opponent already offered one
+   * this accepts it, and the returned game is the new one.
+   */
+  static async offerRematch(gameId: string): Promise<GameData> {
+    return this.invokeGameOperation('offerRematch', gameId);
   }
 
-  static async offerDraw(gameId: string): Promise<void> {
-    await this.sendSystemMessage(gameId, 'Draw offer sent');
+  /**
+   * Accepts the opponent's rematch offer; returns the new game
+   */
+  static async acceptRematch(gameId: string): Promise<GameData> {
+    return this.invokeGameOperation('acceptRematch', gameId);
   }
 
-  static async acceptDraw(gameId: string): Promise<void> {
-    const { error } = await supabase
-      .from('games')
-      .update({
-        status: 'completed',
-        winner: 'draw',
-        result_reason: 'agreement',
-      })
-      .eq('id', gameId);
+  static async declineRematch(gameId: string): Promise<void> {
+    await this.invokeGameOperation('declineRematch', gameId);
+  }
+
+  /**
+   * Asks the opponent to take back your last move or ban
+   */
+  static async requestTakeback(gameId: string): Promise<void> {
+    await this.invokeGameOperation('requestTakeback', gameId);
+  }
+
+  /**
+   * Accepts the opponent's takeback request; the rolled-back state arrives
+   * over the game channel like any other update
+   */
+  static async acceptTakeback(gameId: string): Promise<void> {
+    await this.invokeGameOperation('acceptTakeback', gameId);
+  }
+
+  /**
+   * Declines the opponent's takeback request, or withdraws your own
+   */
+  static async declineTakeback(gameId: string): Promise<void> {
+    await this.invokeGameOperation('declineTakeback', gameId);
+  }
+
+  /**
+   * The stored post-game report, or null if none has been stored in the
+   * current format yet
+   */
+  static async loadGameReport(gameId: string): Promise<GameReport | null> {
+    const { data, error } = await supabase
+      .from('game_reports')
+      .select('*')
+      .eq('game_id', gameId)
+      .maybeSingle();
 
     if (error) throw error;
+    if (!data || data.version < GAME_REPORT_VERSION) return null;
+    return data.report as unknown as GameReport;
+  }
+
+  /**
+   * Stores a finished game's report; only the game's players may
+   */
+  static async saveGameReport(gameId: string, report: GameReport): Promise<void> {
+    const { error } = await invokeWithAuth('game-operations', {
+      body: { operation: 'saveGameReport', gameId, report }
+    });
+
+    if (error) {
+      console.error('GameService.saveGameReport error:', error);
+      throw new Error(error.message || 'saveGameReport failed');
+    }
+  }
+
+  private static async invokeGameOperation(operation: string, gameId: string): Promise<GameData> {
+    const { data, error } = await invokeWithAuth('game-operations', {
+      body: { operation, gameId }
+    });
+
+    if (error) {
+      console.error(`GameService.${operation} error:`, error);
+      throw new Error(error.message || `${operation} failed`);
+    }
+    return data.data.game as GameData;
   }
 
   static async getGameHistory(gameId: string) {
@@ -311,13 +432,28 @@ export class GameService {
   }
 
   // Matchmaking
-  static async joinMatchmakingQueue(timeControl?: { minutes: number; increment: number }) {
+  /**
+   * Joins the queue. `timeControl` must be one of TIME_CONTROL_PRESETS; players
+   * are only paired with others who chose the same one and start position.
+   */
+  static async joinMatchmakingQueue(timeControl?: { minutes: number; increment: number }, startPosition?: StartPositionKind) {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session) throw new Error('Not authenticated');
 
+    const preset = timeControl && TIME_CONTROL_PRESETS.find(
+      p => p.minutes === timeControl.minutes && p.increment === timeControl.increment
+    );
+    if (timeControl && !preset) {
+      throw new Error(`No ${timeControl.minutes}+${timeControl.increment} time control preset`);
+    }
+
     // Call the matchmaking edge function to join queue
     const response = await supabase.functions.invoke('matchmaking', {
-      body: { operation: 'joinQueue' },
+      body: {
+        operation: 'joinQueue',
+        ...(startPosition && { startPosition }),
+        ...(preset && { timeControl: preset.id }),
+      },
     });
 
     // Check if response has error structure
@@ -1,6 +1,7 @@
 // Normalization utilities for server <-> client data shapes
 import type { Game } from '@/types/game';
 import type { BanChess } from 'ban-chess.ts';
+import type { GameClock, PlayerClock } from '@/types/time-control';
 
 // Convert server (possibly snake_case) to client camelCase Game
 export function toClientGame(server: Record<string, unknown>): Game {
@@ -13,7 +14,7 @@ export function toClientGame(server: Record<string, unknown>): Game {
     pgn: (g.pgn ?? g.pgn_text ?? null) as string | null,
     currentFen: String(g.currentFen ?? g.current_fen ?? g.fen ?? ''),
     turn: (g.turn ?? g.current_turn ?? 'white') as 'white' | 'black',
-    status: (g.status ?? g.game_status ?? 'active') as 'active' | 'completed' | 'abandoned',
+    status: (g.status ?? g.game_status ?? 'active') as 'active' | 'completed' | 'abandoned' | 'aborted',
     banningPlayer: (g.banningPlayer ?? g.banning_player ?? null) as 'white' | 'black' | null,
     currentBannedMove: g.currentBannedMove ?? g.current_banned_move ?? null,
     whitePlayer: (g.whitePlayer ?? g.white_player ?? g.white_username ?? null) as string | null,
@@ -28,9 +29,10 @@ export function toClientGame(server: Record<string, unknown>): Game {
     lastAction: null as any,
     startTime: Date.now(),
     lastMoveTime: Date.now(),
-    drawOfferedBy: null as string | null,
-    rematchOfferedBy: null as string | null,
-    parentGameId: null as string | null
+    drawOfferedBy: (g.drawOfferedBy ?? g.draw_offered_by ?? null) as string | null,
+    takebackRequestedBy: (g.takebackRequestedBy ?? g.takeback_requested_by ?? null) as string | null,
+    rematchOfferedBy: (g.rematchOfferedBy ?? g.rematch_offered_by ?? null) as string | null,
+    parentGameId: (g.parentGameId ?? g.parent_game_id ?? null) as string | null
   };
   
   return { ...server, ...gameBase } as unknown as Game;
@@ -59,3 +61,37 @@ export function toClientBan(server: Record<string, unknown>) {
     atMoveNumber: b.atMoveNumber ?? b.at_move_number,
   };
 }
+
+// Server clock columns as stored on the games row / sent in game_update broadcasts
+interface ServerClockFields {
+  white_time_remaining?: number | null;
+  black_time_remaining?: number | null;
+  white_turn_start_time?: number | null;
+  black_turn_start_time?: number | null;
+}
+
+// Convert server clock columns into a client GameClock.
+// Turn start timestamps are server epoch ms; when the broadcast carries the
+// server's time they are shifted onto the local clock so a skewed client
+// clock doesn't eat into (or add to) the remaining time.
+export function toClientClock(server: ServerClockFields, serverTime?: number): GameClock | null {
+  if (server.white_time_remaining == null || server.black_time_remaining == null) return null;
+
+  const now = Date.now();
+  const offset = serverTime ? now - serverTime : 0;
+
+  const toPlayerClock = (timeRemaining: number, turnStartTime: number | null | undefined): PlayerClock => ({
+    timeRemaining,
+    turnStartTime: turnStartTime ? turnStartTime + offset : null,
+    lastUpdateTime: now,
+    isRunning: !!turnStartTime,
+  });
+
+  return {
+    white: toPlayerClock(server.white_time_remaining, server.white_turn_start_time),
+    black: toPlayerClock(server.black_time_remaining, server.black_turn_start_time),
+    activeColor: server.white_turn_start_time ? 'white' : server.black_turn_start_time ? 'black' : null,
+    serverTime: serverTime ?? now,
+    latencyCompensation: 0,
+  };
+}
@@ -0,0 +1,61 @@
+import { invokeWithAuth } from "../utils/supabase";
+import type { Ban } from "ban-chess.ts";
+
+export type PuzzleKind = "ban_mate" | "winning_ban";
+
+// A puzzle as served; the solution stays on the server until a ban is submitted
+export interface Puzzle {
+  id: string;
+  fen: string;
+  kind: PuzzleKind;
+  rating: number;
+}
+
+export interface PuzzleResult {
+  solved: boolean;
+  solution: Ban;
+  // null when the puzzle had been tried before, so the rating didn't move
+  ratingChange: number | null;
+  rating: number;
+}
+
+export interface PuzzleAttempt {
+  id: string;
+  puzzle_id: string;
+  solved: boolean;
+  rating_change: number | null;
+  created_at: string | null;
+  puzzles: { kind: PuzzleKind; rating: number } | null;
+}
+
+export class PuzzleService {
+  private static async invoke<T>(operation: string, params: Record<string, unknown> = {}): Promise<T> {
+    const { data, error } = await invokeWithAuth("puzzles", {
+      body: { operation, ...params },
+    });
+
+    if (error) {
+      console.error(`[Puzzles] ${operation} error:`, error);
+      throw new Error(error.message || `${operation} failed`);
+    }
+    return data.data as T;
+  }
+
+  /**
+   * An unattempted puzzle near the player's puzzle rating, or null when none are left
+   */
+  static async nextPuzzle(): Promise<{ puzzle: Puzzle | null; rating: number }> {
+    return await this.invoke("nextPuzzle");
+  }
+
+  /**
+   * Submits a ban as the answer; the first attempt at a puzzle is rated
+   */
+  static async submitSolution(puzzleId: string, ban: Ban): Promise<PuzzleResult> {
+    return await this.invoke("submitSolution", { puzzleId, ban });
+  }
+
+  static async getHistory(): Promise<{ attempts: PuzzleAttempt[]; rating: number }> {
+    return await this.invoke("history");
+  }
+}
@@ -18,4 +18,14 @@ export class UserService {
       .single();
     return data;
   }
-}
\ No newline at end of file
+  
+  // Settings rows are created lazily, so this may be null
+  static async getSettings(userId: string) {
+    const { data } = await supabase
+      .from('settings')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+    return data;
+  }
+}
@@ -1,15 +1,42 @@
 import { create } from 'zustand';
 import { BanChess } from 'ban-chess.ts';
-import { GameService } from '@/services/gameService';
+import { GameService, StaleGameStateError } from '@/services/gameService';
 import type { Tables } from '@/types/database';
+import type { GameClock } from '@/types/time-control';
+import { toClientClock } from '@/services/mappers';
+import { FunctionsFetchError } from '@supabase/supabase-js';
 
 type GameData = Tables<'games'>;
 
+// Retries for actions whose request never reached (or never returned from) the server
+const MAX_ACTION_ATTEMPTS = 3;
+const ACTION_RETRY_DELAY_MS = 500;
+
 interface GameStore {
   // Core state only
   engine: BanChess | null;
   gameId: string | null;
   myColor: 'white' | 'black' | null;
+  clock: GameClock | null;
+  // Server-side game outcome (timeouts end games the engine can't see)
+  status: string | null;
+  winner: string | null;
+  endReason: string | null;
+  // Rating changes of a completed rated game
+  eloChangeWhite: number | null;
+  eloChangeBlack: number | null;
+  // games.version of the state we're showing; sent with actions so the server can reject stale ones
+  version: number | null;
+  // Open draw offer in a live game
+  drawOfferedBy: string | null;
+  // Open takeback request in a live game
+  takebackRequestedBy: string | null;
+  // Whether each side has a recorded action; the game is abortable until both have
+  whiteHasActed: boolean;
+  blackHasActed: boolean;
+  // Open rematch offer on a finished game, and the game it led to once accepted
+  rematchOfferedBy: string | null;
+  rematchGameId: string | null;
   
   // Actions - minimal
   loadGame: (gameId: string, gameData: GameData | string) => void;
@@ -22,10 +49,33 @@ export const useUnifiedGameStore = create<GameStore>((set, get) => ({
   engine: null,
   gameId: null,
   myColor: null,
+  clock: null,
+  status: null,
+  winner: null,
+  endReason: null,
+  eloChangeWhite: null,
+  eloChangeBlack: null,
+  version: null,
+  drawOfferedBy: null,
+  takebackRequestedBy: null,
+  whiteHasActed: false,
+  blackHasActed: false,
+  rematchOfferedBy: null,
+  rematchGameId: null,
   
   loadGame: (gameId, gameData) => {
     // Extract FEN from game data - handle both full game object and direct FEN string
     let fen;
+    let clock: GameClock | null = null;
+    let version: number | null = null;
+    let drawOfferedBy: string | null = null;
+    let takebackRequestedBy: string | null = null;
+    let whiteHasActed = false;
+    let blackHasActed = false;
+    let rematchOfferedBy: string | null = null;
+    let outcome: Pick<GameStore, 'status' | 'winner' | 'endReason' | 'eloChangeWhite' | 'eloChangeBlack'> = {
+      status: null, winner: null, endReason: null, eloChangeWhite: null, eloChangeBlack: null,
+    };
     if (typeof gameData === 'string') {
       // If it's already a FEN string, use it
       if (gameData.includes('/')) {
@@ -37,10 +87,24 @@ export const useUnifiedGameStore = create<GameStore>((set, get) => ({
     } else if (gameData && typeof gameData === 'object') {
       // If it's a game object, use current_fen field
       fen = gameData.current_fen;
+      clock = toClientClock(gameData);
+      outcome = {
+        status: gameData.status,
+        winner: gameData.winner,
+        endReason: gameData.end_reason,
+        eloChangeWhite: gameData.elo_change_white,
+        eloChangeBlack: gameData.elo_change_black,
+      };
+      version = gameData.version ?? null;
+      drawOfferedBy = gameData.draw_offered_by ?? null;
+      takebackRequestedBy = gameData.takeback_requested_by ?? null;
+      whiteHasActed = gameData.white_has_acted;
+      blackHasActed = gameData.black_has_acted;
+      rematchOfferedBy = gameData.rematch_offered_by ?? null;
     }
     
     const engine = new BanChess(fen ?? undefined);
-    set({ gameId, engine });
+    set({ gameId, engine, clock, version, drawOfferedBy, takebackRequestedBy, whiteHasActed, blackHasActed, rematchOfferedBy, rematchGameId: null, ...outcome });
   },
   
   updateGameFromBroadcast: (gameId, gameUpdate, broadcastData) => {
@@ -49,10 +113,34 @@ export const useUnifiedGameStore = create<GameStore>((set, get) => ({
     // Only update if it's for the current game
     if (currentGameId !== gameId) return;
     
+    // Ignore broadcasts that arrive after a newer state (e.g. a resync)
+    const currentVersion = get().version;
+    if (typeof gameUpdate.version === 'number' && currentVersion !== null && gameUpdate.version < currentVersion) {
+      return;
+    }
+    
     // Create new engine from broadcast FEN
     if (gameUpdate.current_fen) {
       const engine = new BanChess(gameUpdate.current_fen);
-      set({ engine });
+      const extras = broadcastData as { clock?: { serverTime?: number }; rematch_game_id?: string } | undefined;
+      const serverTime = extras?.clock?.serverTime;
+      const clock = toClientClock(gameUpdate, serverTime) ?? get().clock;
+      set({
+        engine,
+        clock,
+        status: gameUpdate.status ?? get().status,
+        winner: gameUpdate.winner ?? null,
+        endReason: gameUpdate.end_reason ?? null,
+        eloChangeWhite: gameUpdate.elo_change_white ?? null,
+        eloChangeBlack: gameUpdate.elo_change_black ?? null,
+        version: gameUpdate.version ?? get().version,
+        drawOfferedBy: gameUpdate.draw_offered_by ?? null,
+        takebackRequestedBy: gameUpdate.takeback_requested_by ?? null,
+        whiteHasActed: gameUpdate.white_has_acted ?? get().whiteHasActed,
+        blackHasActed: gameUpdate.black_has_acted ?? get().blackHasActed,
+        rematchOfferedBy: gameUpdate.rematch_offered_by ?? null,
+        rematchGameId: extras?.rematch_game_id ?? get().rematchGameId,
+      });
       
       // Log the update for debugging
       console.log('[Store] Updated game from broadcast:', {
@@ -66,14 +154,37 @@ export const useUnifiedGameStore = create<GameStore>((set, get) => ({
   },
   
   playAction: async (action) => {
-    const { gameId } = get();
+    const { gameId, version } = get();
     if (!gameId) return;
     
-    await GameService.playAction(gameId, action);
+    // Same ID on every attempt, so a retry of an action that did land
+    // gets the original result back instead of being applied twice. Only
+    // moves and bans are recorded with their ID, so only they are retried.
+    const retryable = !!(action.move || action.ban);
+    const actionId = retryable ? crypto.randomUUID() : undefined;
+    
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await GameService.playAction(gameId, action, version ?? undefined, actionId);
+        break;
+      } catch (error) {
+        if (retryable && error instanceof FunctionsFetchError && attempt < MAX_ACTION_ATTEMPTS) {
+          console.warn(`[Store] Action request failed, retrying (${attempt}/${MAX_ACTION_ATTEMPTS - 1})`, error);
+          await new Promise(resolve => setTimeout(resolve, ACTION_RETRY_DELAY_MS * attempt));
+          continue;
+        }
+        
+        // Our view of the game was stale - catch up to the server's state
+        if (error instanceof StaleGameStateError && error.game && get().gameId === gameId) {
+          get().loadGame(gameId, error.game);
+        }
+        throw error;
+      }
+    }
     // State will be updated via realtime subscription
   },
   
   reset: () => {
-    set({ engine: null, gameId: null, myColor: null });
+    set({ engine: null, gameId: null, myColor: null, clock: null, status: null, winner: null, endReason: null, eloChangeWhite: null, eloChangeBlack: null, version: null, drawOfferedBy: null, takebackRequestedBy: null, whiteHasActed: false, blackHasActed: false, rematchOfferedBy: null, rematchGameId: null });
   },
 }));
\ No newline at end of file
@@ -34,6 +34,24 @@ export type Database = {
   }
   public: {
     Tables: {
+      app_settings: {
+        Row: {
+          key: string
+          updated_at: string | null
+          value: Json
+        }
+        Insert: {
+          key: string
+          updated_at?: string | null
+          value: Json
+        }
+        Update: {
+          key?: string
+          updated_at?: string | null
+          value?: Json
+        }
+        Relationships: []
+      }
       bug_reports: {
         Row: {
           category: string
@@ -165,27 +183,39 @@ export type Database = {
       game_moves: {
         Row: {
           action_data: Json
+          action_id: string | null
           action_type: string
           created_at: string | null
+          fen_after: string | null
           game_id: string
           id: string
+          player_id: string | null
           ply: number
+          result: Json | null
         }
         Insert: {
           action_data: Json
+          action_id?: string | null
           action_type: string
           created_at?: string | null
+          fen_after?: string | null
           game_id: string
           id?: string
+          player_id?: string | null
           ply: number
+          result?: Json | null
         }
         Update: {
           action_data?: Json
+          action_id?: string | null
           action_type?: string
           created_at?: string | null
+          fen_after?: string | null
           game_id?: string
           id?: string
+          player_id?: string | null
           ply?: number
+          result?: Json | null
         }
         Relationships: [
           {
@@ -202,6 +232,49 @@ export type Database = {
             referencedRelation: "games"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "game_moves_player_id_fkey"
+            columns: ["player_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      game_reports: {
+        Row: {
+          created_at: string | null
+          game_id: string
+          report: Json
+          version: number
+        }
+        Insert: {
+          created_at?: string | null
+          game_id: string
+          report: Json
+          version: number
+        }
+        Update: {
+          created_at?: string | null
+          game_id?: string
+          report?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_reports_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: true
+            referencedRelation: "active_games_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "game_reports_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: true
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
         ]
       }
       games: {
@@ -209,81 +282,126 @@ export type Database = {
           ban_chess_state: string
           ban_history: Json | null
           banning_player: string | null
+          black_has_acted: boolean
           black_player_id: string | null
           black_time_remaining: number | null
+          black_turn_start_time: number | null
+          clock_state: Json | null
           created_at: string | null
           current_fen: string | null
+          draw_offered_by: string | null
           elo_change_black: number | null
           elo_change_white: number | null
           end_reason: string | null
           id: string
+          is_bot_game: boolean
           is_public: boolean | null
           is_rated: boolean | null
+          lag_compensation_ms: number | null
+          last_clock_update: string | null
           last_move_at: string | null
           move_history: Json | null
           opening_name: string | null
+          parent_game_id: string | null
           pgn: string | null
+          puzzles_scanned_at: string | null
+          rematch_offered_by: string | null
           spectators: string[] | null
+          starting_fen: string | null
           status: string
+          takeback_requested_by: string | null
           time_control: Json | null
           turn: string | null
           updated_at: string | null
+          version: number
+          white_has_acted: boolean
           white_player_id: string | null
           white_time_remaining: number | null
+          white_turn_start_time: number | null
           winner: string | null
         }
         Insert: {
           ban_chess_state: string
           ban_history?: Json | null
           banning_player?: string | null
+          black_has_acted?: boolean
           black_player_id?: string | null
           black_time_remaining?: number | null
+          black_turn_start_time?: number | null
+          clock_state?: Json | null
           created_at?: string | null
           current_fen?: string | null
+          draw_offered_by?: string | null
           elo_change_black?: number | null
           elo_change_white?: number | null
           end_reason?: string | null
           id?: string
+          is_bot_game?: boolean
           is_public?: boolean | null
           is_rated?: boolean | null
+          lag_compensation_ms?: number | null
+          last_clock_update?: string | null
           last_move_at?: string | null
           move_history?: Json | null
           opening_name?: string | null
+          parent_game_id?: string | null
           pgn?: string | null
+          puzzles_scanned_at?: string | null
+          rematch_offered_by?: string | null
           spectators?: string[] | null
+          starting_fen?: string | null
           status?: string
+          takeback_requested_by?: string | null
           time_control?: Json | null
           turn?: string | null
           updated_at?: string | null
+          version?: number
+          white_has_acted?: boolean
           white_player_id?: string | null
           white_time_remaining?: number | null
+          white_turn_start_time?: number | null
           winner?: string | null
         }
         Update: {
           ban_chess_state?: string
           ban_history?: Json | null
           banning_player?: string | null
+          black_has_acted?: boolean
           black_player_id?: string | null
           black_time_remaining?: number | null
+          black_turn_start_time?: number | null
+          clock_state?: Json | null
           created_at?: string | null
           current_fen?: string | null
+          draw_offered_by?: string | null
           elo_change_black?: number | null
           elo_change_white?: number | null
           end_reason?: string | null
           id?: string
+          is_bot_game?: boolean
           is_public?: boolean | null
           is_rated?: boolean | null
+          lag_compensation_ms?: number | null
+          last_clock_update?: string | null
           last_move_at?: string | null
           move_history?: Json | null
           opening_name?: string | null
+          parent_game_id?: string | null
           pgn?: string | null
+          puzzles_scanned_at?: string | null
+          rematch_offered_by?: string | null
           spectators?: string[] | null
+          starting_fen?: string | null
           status?: string
+          takeback_requested_by?: string | null
           time_control?: Json | null
           turn?: string | null
           updated_at?: string | null
+          version?: number
+          white_has_acted?: boolean
           white_player_id?: string | null
           white_time_remaining?: number | null
+          white_turn_start_time?: number | null
           winner?: string | null
         }
         Relationships: [
@@ -294,6 +412,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "games_parent_game_id_fkey"
+            columns: ["parent_game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "games_white_player_id_fkey"
             columns: ["white_player_id"]
@@ -355,6 +480,7 @@ export type Database = {
         Row: {
           avatar_url: string | null
           bio: string | null
+          bot_level: string | null
           country_code: string | null
           created_at: string | null
           elo_rating: number | null
@@ -363,9 +489,13 @@ export type Database = {
           games_played: number | null
           games_won: number | null
           id: string
+          is_bot: boolean
           is_online: boolean | null
           last_online: string | null
           last_seen: string | null
+          puzzle_rating: number
+          rating_deviation: number
+          rating_volatility: number
           title: string | null
           updated_at: string | null
           username: string
@@ -373,6 +503,7 @@ export type Database = {
         Insert: {
           avatar_url?: string | null
           bio?: string | null
+          bot_level?: string | null
           country_code?: string | null
           created_at?: string | null
           elo_rating?: number | null
@@ -381,9 +512,13 @@ export type Database = {
           games_played?: number | null
           games_won?: number | null
           id: string
+          is_bot?: boolean
           is_online?: boolean | null
           last_online?: string | null
           last_seen?: string | null
+          puzzle_rating?: number
+          rating_deviation?: number
+          rating_volatility?: number
           title?: string | null
           updated_at?: string | null
           username: string
@@ -391,6 +526,7 @@ export type Database = {
         Update: {
           avatar_url?: string | null
           bio?: string | null
+          bot_level?: string | null
           country_code?: string | null
           created_at?: string | null
           elo_rating?: number | null
@@ -399,15 +535,118 @@ export type Database = {
           games_played?: number | null
           games_won?: number | null
           id?: string
+          is_bot?: boolean
           is_online?: boolean | null
           last_online?: string | null
           last_seen?: string | null
+          puzzle_rating?: number
+          rating_deviation?: number
+          rating_volatility?: number
           title?: string | null
           updated_at?: string | null
           username?: string
         }
         Relationships: []
       }
+      puzzle_attempts: {
+        Row: {
+          ban: Json
+          created_at: string | null
+          id: string
+          puzzle_id: string
+          rating_change: number | null
+          solved: boolean
+          user_id: string
+        }
+        Insert: {
+          ban: Json
+          created_at?: string | null
+          id?: string
+          puzzle_id: string
+          rating_change?: number | null
+          solved: boolean
+          user_id: string
+        }
+        Update: {
+          ban?: Json
+          created_at?: string | null
+          id?: string
+          puzzle_id?: string
+          rating_change?: number | null
+          solved?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "puzzle_attempts_puzzle_id_fkey"
+            columns: ["puzzle_id"]
+            isOneToOne: false
+            referencedRelation: "puzzles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "puzzle_attempts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      puzzles: {
+        Row: {
+          attempts: number
+          created_at: string | null
+          fen: string
+          game_id: string | null
+          id: string
+          kind: string
+          ply: number
+          rating: number
+          solution: Json
+          solves: number
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string | null
+          fen: string
+          game_id?: string | null
+          id?: string
+          kind: string
+          ply: number
+          rating?: number
+          solution: Json
+          solves?: number
+        }
+        Update: {
+          attempts?: number
+          created_at?: string | null
+          fen?: string
+          game_id?: string | null
+          id?: string
+          kind?: string
+          ply?: number
+          rating?: number
+          solution?: Json
+          solves?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "puzzles_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "active_games_view"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "puzzles_game_id_fkey"
+            columns: ["game_id"]
+            isOneToOne: false
+            referencedRelation: "games"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       settings: {
         Row: {
           auto_queen: boolean | null
@@ -568,6 +807,128 @@ export type Database = {
         Args: { user_id: string }
         Returns: string
       }
+      glicko2_rate: {
+        Args: {
+          deviation: number
+          opponent_deviation: number
+          opponent_rating: number
+          rating: number
+          score: number
+          volatility: number
+        }
+        Returns: Record<string, unknown>
+      }
+      glicko2_volatility_f: {
+        Args: {
+          a: number
+          delta: number
+          phi: number
+          tau: number
+          v: number
+          x: number
+        }
+        Returns: number
+      }
+      record_game_action: {
+        Args: {
+          p_action: Json
+          p_game: Json
+          p_game_id: string
+          p_version: number
+        }
+        Returns: {
+          ban_chess_state: string
+          ban_history: Json | null
+          banning_player: string | null
+          black_has_acted: boolean
+          black_player_id: string | null
+          black_time_remaining: number | null
+          black_turn_start_time: number | null
+          clock_state: Json | null
+          created_at: string | null
+          current_fen: string | null
+          draw_offered_by: string | null
+          elo_change_black: number | null
+          elo_change_white: number | null
+          end_reason: string | null
+          id: string
+          is_bot_game: boolean
+          is_public: boolean | null
+          is_rated: boolean | null
+          lag_compensation_ms: number | null
+          last_clock_update: string | null
+          last_move_at: string | null
+          move_history: Json | null
+          opening_name: string | null
+          parent_game_id: string | null
+          pgn: string | null
+          puzzles_scanned_at: string | null
+          rematch_offered_by: string | null
+          spectators: string[] | null
+          starting_fen: string | null
+          status: string
+          takeback_requested_by: string | null
+          time_control: Json | null
+          turn: string | null
+          updated_at: string | null
+          version: number
+          white_has_acted: boolean
+          white_player_id: string | null
+          white_time_remaining: number | null
+          white_turn_start_time: number | null
+          winner: string | null
+        }[]
+      }
+      take_back_game_action: {
+        Args: {
+          p_game: Json
+          p_game_id: string
+          p_move_id: string
+          p_version: number
+        }
+        Returns: {
+          ban_chess_state: string
+          ban_history: Json | null
+          banning_player: string | null
+          black_has_acted: boolean
+          black_player_id: string | null
+          black_time_remaining: number | null
+          black_turn_start_time: number | null
+          clock_state: Json | null
+          created_at: string | null
+          current_fen: string | null
+          draw_offered_by: string | null
+          elo_change_black: number | null
+          elo_change_white: number | null
+          end_reason: string | null
+          id: string
+          is_bot_game: boolean
+          is_public: boolean | null
+          is_rated: boolean | null
+          lag_compensation_ms: number | null
+          last_clock_update: string | null
+          last_move_at: string | null
+          move_history: Json | null
+          opening_name: string | null
+          parent_game_id: string | null
+          pgn: string | null
+          puzzles_scanned_at: string | null
+          rematch_offered_by: string | null
+          spectators: string[] | null
+          starting_fen: string | null
+          status: string
+          takeback_requested_by: string | null
+          time_control: Json | null
+          turn: string | null
+          updated_at: string | null
+          version: number
+          white_has_acted: boolean
+          white_player_id: string | null
+          white_time_remaining: number | null
+          white_turn_start_time: number | null
+          winner: string | null
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
@@ -11,6 +11,7 @@ import type { PlayerColor } from "./game";
 export interface TimeControl {
   initialTime: number; // milliseconds
   increment: number; // milliseconds added after each move
+  banTimeLimit?: number; // milliseconds per ban; a random ban is played when it runs out
 }
 
 /**
@@ -0,0 +1,164 @@
+import { BanChess } from 'ban-chess.ts';
+import type { Ban, Color, Move } from 'ban-chess.ts';
+import { scoreReplies, type ScoredMove } from '@/utils/banChessAi';
+import { DEFAULT_ANALYSIS_DEPTH, rankBans } from '@/utils/banAnalysis';
+import type { RecordedAction } from '@/utils/pgn';
+
+/**
+ * Post-game report
+ * Replays a finished game and scores every ban and move with the computer
+ * opponent's evaluation (src/utils/banChessAi.ts). Each action is compared
+ * with the best one available at the time; the largest losses are kept,
+ * along with the ban-mates that went unplayed and the checks a ban cut down
+ * to a single escape. Reports are computed once and stored in game_reports.
+ *
+ * `ply` is a replay ply (actions played before the position), so entries
+ * can be jumped to with useGameReplay's goTo.
+ */
+
+// Bumped when the report contents change, so old stored reports are rebuilt;
+// the server only stores this version (game-report-handlers.ts)
+export const GAME_REPORT_VERSION = 1;
+
+// Losses below this are evaluation noise, not mistakes (centipawns)
+const MIN_SWING = 100;
+const MAX_SWINGS = 5;
+
+export interface MoveSwing {
+  // Position the move was played from (after the ban)
+  ply: number;
+  color: Color;
+  played: { from: string; to: string; san: string };
+  best: { from: string; to: string };
+  // What the move cost the mover, in centipawns
+  loss: number;
+  // Evaluations from White's point of view
+  bestScore: number;
+  playedScore: number;
+}
+
+export interface BanSwing {
+  // Position the ban was played from
+  ply: number;
+  // The banning side
+  color: Color;
+  played: Ban;
+  best: Ban;
+  // How much less the played ban cost the opponent than the best one
+  loss: number;
+}
+
+export interface MissedBanMate {
+  // Position where banning the only escape would have mated
+  ply: number;
+  color: Color;
+  banMate: Ban;
+  played: Ban;
+}
+
+export interface SingleEscape {
+  // Position after the ban, with one legal move left
+  ply: number;
+  // The side in check
+  color: Color;
+  escape: { from: string; to: string };
+}
+
+export interface GameReport {
+  version: number;
+  depth: number;
+  moveSwings: MoveSwing[];
+  banSwings: BanSwing[];
+  missedBanMates: MissedBanMate[];
+  singleEscapes: SingleEscape[];
+}
+
+const sameSquares = (a: { from: string; to: string }, b: { from: string; to: string }) =>
+  a.from === b.from && a.to === b.to;
+
+const biggestFirst = <T extends { loss: number }>(swings: T[]) =>
+  swings
+    .filter(swing => swing.loss >= MIN_SWING)
+    .sort((a, b) => b.loss - a.loss)
+    .slice(0, MAX_SWINGS);
+
+/**
+ * Builds the report for a game from its recorded actions (game_moves)
+ */
+export function buildGameReport(
+  actions: RecordedAction[],
+  startFen?: string,
+  depth = DEFAULT_ANALYSIS_DEPTH,
+): GameReport {
+  const engine = new BanChess(startFen);
+  const moveSwings: MoveSwing[] = [];
+  const banSwings: BanSwing[] = [];
+  const missedBanMates: MissedBanMate[] = [];
+  const singleEscapes: SingleEscape[] = [];
+
+  // Reply scores from the last ban position, reused for the move after it
+  let replies: ScoredMove[] = [];
+  let lastBan: Ban | null = null;
+
+  for (const [ply, { action_type, action_data }] of actions.entries()) {
+    const data = action_data as { from?: string; to?: string; promotion?: 'q' | 'r' | 'b' | 'n' } | null;
+    if (!data?.from || !data?.to) break;
+
+    const color = engine.turn;
+    const fen = engine.fen();
+
+    if (action_type === 'ban') {
+      const ban: Ban = { from: data.from, to: data.to };
+      replies = scoreReplies(fen, depth);
+      lastBan = ban;
+
+      const analysis = rankBans(fen, replies);
+      const played = analysis?.rankings.find(r => sameSquares(r.ban, ban));
+      if (analysis && played) {
+        const [best] = analysis.rankings;
+        banSwings.push({ ply, color, played: ban, best: best.ban, loss: best.impact - played.impact });
+        if (analysis.banMate && !sameSquares(analysis.banMate, ban)) {
+          missedBanMates.push({ ply, color, banMate: analysis.banMate, played: ban });
+        }
+      }
+
+      if (!engine.play({ ban }).success) break;
+
+      const remaining = engine.legalMoves();
+      if (engine.inCheck() && remaining.length === 1) {
+        const [escape] = remaining;
+        singleEscapes.push({ ply: ply + 1, color: engine.turn, escape: { from: escape.from, to: escape.to } });
+      }
+      continue;
+    }
+
+    const move: Move = { from: data.from, to: data.to, ...(data.promotion && { promotion: data.promotion }) };
+    const result = engine.play({ move });
+    if (!result.success) break;
+
+    const sign = color === 'white' ? 1 : -1;
+    const available = replies.filter(r => !lastBan || !sameSquares(r.move, lastBan));
+    const playedReply = available.find(r => sameSquares(r.move, move) && r.move.promotion === move.promotion);
+    if (playedReply && available.length > 0) {
+      const best = available.reduce((a, b) => (b.score * sign > a.score * sign ? b : a));
+      moveSwings.push({
+        ply,
+        color,
+        played: { from: move.from, to: move.to, san: result.san ?? `${move.from}${move.to}` },
+        best: { from: best.move.from, to: best.move.to },
+        loss: (best.score - playedReply.score) * sign,
+        bestScore: best.score,
+        playedScore: playedReply.score,
+      });
+    }
+  }
+
+  return {
+    version: GAME_REPORT_VERSION,
+    depth,
+    moveSwings: biggestFirst(moveSwings),
+    banSwings: biggestFirst(banSwings),
+    missedBanMates,
+    singleEscapes,
+  };
+}
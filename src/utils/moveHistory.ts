@@ -0,0 +1,50 @@
+import type { HistoryEntry as EngineHistoryEntry, Move } from 'ban-chess.ts';
+import type { HistoryEntry } from '@/components/MoveHistoryTable';
+
+/**
+ * Groups engine history into MoveHistoryTable rows.
+ * Ban Chess flow per row: Black bans -> White moves -> White bans -> Black moves,
+ * so a ban goes in the column of the player it restricts (Black's ban -> whiteBan).
+ * `firstTurnNumber` is the fullmove number of the starting position.
+ * Each cell records its ply (1-based index into `history`) so the table can jump to it.
+ */
+export function historyRowsFromEngine(history: EngineHistoryEntry[], firstTurnNumber = 1): HistoryEntry[] {
+  const rows: HistoryEntry[] = [];
+  let current: HistoryEntry = { turnNumber: firstTurnNumber };
+
+  history.forEach((entry, index) => {
+    const ply = index + 1;
+
+    if (entry.actionType === 'ban') {
+      // entry.player is inconsistent for bans (the opening ban is recorded as the
+      // banner's, later ones as the restricted player's), so read the side to
+      // move from the position after the ban instead
+      const banKey = entry.fen.split(' ')[1] === 'w' ? 'whiteBan' : 'blackBan';
+
+      // Black's ban after a completed row opens the next one
+      if (banKey === 'whiteBan' && current.blackMove) {
+        rows.push(current);
+        current = { turnNumber: current.turnNumber + 1 };
+      }
+
+      current = {
+        ...current,
+        [banKey]: `${entry.action.from}→${entry.action.to}`,
+        plies: { ...current.plies, [banKey]: ply },
+      };
+    } else {
+      const moveKey = entry.player === 'white' ? 'whiteMove' : 'blackMove';
+      current = {
+        ...current,
+        [moveKey]: entry.san ?? `${entry.action.from}${entry.action.to}${(entry.action as Move).promotion ?? ''}`,
+        plies: { ...current.plies, [moveKey]: ply },
+      };
+    }
+  });
+
+  if (current.whiteBan || current.whiteMove || current.blackBan || current.blackMove) {
+    rows.push(current);
+  }
+
+  return rows;
+}
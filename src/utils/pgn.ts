@@ -0,0 +1,322 @@
+import { BanChess } from 'ban-chess.ts';
+import type { Json } from '@/types/database';
+import { validateStartingFen } from '@/utils/startPosition';
+
+/**
+ * Ban-annotated PGN helpers
+ * Client-side twin of supabase/functions/_shared/pgn.ts - keep the output identical.
+ * Move text follows BanChess.pgn(): `1. {banning: e2e4} d4 {banning: e7e5} d5`
+ */
+
+export interface PgnGameInfo {
+  whiteName?: string | null;
+  blackName?: string | null;
+  createdAt?: string | null;
+  timeControl?: Json | null;
+  winner?: string | null;
+  endReason?: string | null;
+  // Set for games that didn't start from the standard position
+  startingFen?: string | null;
+}
+
+export interface RecordedAction {
+  action_type: string;
+  action_data: Json;
+}
+
+export type PgnAction =
+  | { type: 'ban'; from: string; to: string }
+  | { type: 'move'; san: string };
+
+const HEADER_LINE = /^\[(\w+)\s+"(.*)"\]\s*$/;
+const RESULT_TOKEN = /\s*(1-0|0-1|1\/2-1\/2|\*)\s*$/;
+
+const terminationLabels: Record<string, string> = {
+  checkmate: 'checkmate',
+  resignation: 'resignation',
+  draw_agreement: 'draw by agreement',
+  stalemate: 'stalemate',
+  insufficient_material: 'insufficient material',
+  threefold_repetition: 'threefold repetition',
+  fifty_move_rule: 'fifty-move rule',
+  timeout: 'time forfeit',
+  aborted: 'abandoned',
+};
+
+export function pgnResult(winner: string | null | undefined): string {
+  switch (winner) {
+    case 'white':
+      return '1-0';
+    case 'black':
+      return '0-1';
+    case 'draw':
+      return '1/2-1/2';
+    default:
+      return '*';
+  }
+}
+
+// time_control is stored in ms; the PGN tag wants "600+5" in seconds
+function pgnTimeControl(timeControl: Json | null | undefined): string {
+  if (!timeControl || typeof timeControl !== 'object' || Array.isArray(timeControl)) {
+    return '-';
+  }
+  const initial = Number(timeControl.initial_time ?? 0);
+  const increment = Number(timeControl.increment ?? 0);
+  if (!initial) return '-';
+  return `${Math.round(initial / 1000)}+${Math.round(increment / 1000)}`;
+}
+
+function pgnDate(createdAt: string | null | undefined): string {
+  const date = createdAt ? new Date(createdAt) : new Date();
+  if (Number.isNaN(date.getTime())) return '????.??.??';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getUTCFullYear()}.${pad(date.getUTCMonth() + 1)}.${pad(date.getUTCDate())}`;
+}
+
+/**
+ * Splits a PGN into its header tags and bare move text (no result token)
+ */
+export function parsePgn(pgn: string | null | undefined): { headers: Record<string, string>; movetext: string } {
+  const headers: Record<string, string> = {};
+  const moveLines: string[] = [];
+
+  for (const line of (pgn ?? '').split('\n')) {
+    const header = line.match(HEADER_LINE);
+    if (header) {
+      headers[header[1]] = header[2].replace(/\\"/g, '"').replace(/\\\\/g, '\\');
+    } else if (line.trim()) {
+      moveLines.push(line.trim());
+    }
+  }
+
+  return { headers, movetext: moveLines.join(' ').replace(RESULT_TOKEN, '').trim() };
+}
+
+/**
+ * Appends one action to the move text, numbered from the fullmove field of
+ * the FEN it was played on (the engine's pgn() always numbers from 1)
+ */
+export function appendPgnAction(
+  movetext: string,
+  action: PgnAction,
+  actingColor: 'white' | 'black',
+  fenBefore: string,
+): string {
+  const fullmove = parseInt(fenBefore.split(' ')[5] ?? '1', 10) || 1;
+  let token = action.type === 'ban' ? `{banning: ${action.from}${action.to}}` : action.san;
+
+  if (action.type === 'ban' && actingColor === 'black') {
+    // Black's ban opens each full move, ahead of White's reply
+    token = `${fullmove}. ${token}`;
+  } else if (!movetext) {
+    // Games from a position with Black to move open on White's ban, in
+    // Black's half of the move: `12... {banning: e7e5} d5`
+    token = `${fullmove}${actingColor === 'white' && action.type === 'move' ? '.' : '...'} ${token}`;
+  }
+
+  return movetext ? `${movetext} ${token}` : token;
+}
+
+/**
+ * Full PGN: the Seven Tag Roster, then Variant, TimeControl, SetUp/FEN for
+ * non-standard starts, and Termination.
+ * Any other tags already present in `existing` are kept.
+ */
+export function buildPgn(
+  movetext: string,
+  info: PgnGameInfo,
+  existing: Record<string, string> = {},
+): string {
+  const result = pgnResult(info.winner);
+  const headers: Record<string, string> = {
+    Event: existing.Event ?? 'Ban Chess',
+    Site: existing.Site ?? '-',
+    Date: existing.Date ?? pgnDate(info.createdAt),
+    Round: existing.Round ?? '-',
+    White: info.whiteName ?? existing.White ?? '?',
+    Black: info.blackName ?? existing.Black ?? '?',
+    Result: result,
+    Variant: 'Ban Chess',
+    TimeControl: info.timeControl !== undefined ? pgnTimeControl(info.timeControl) : existing.TimeControl ?? '-',
+  };
+
+  if (info.startingFen) {
+    headers.SetUp = '1';
+    headers.FEN = info.startingFen;
+  }
+
+  for (const [name, value] of Object.entries(existing)) {
+    if (!(name in headers) && name !== 'Termination') headers[name] = value;
+  }
+
+  if (info.endReason) {
+    headers.Termination = terminationLabels[info.endReason] ?? info.endReason;
+  }
+
+  const tags = Object.entries(headers)
+    .map(([name, value]) => `[${name} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`)
+    .join('\n');
+
+  return `${tags}\n\n${movetext ? `${movetext} ${result}` : result}`;
+}
+
+/**
+ * Replays recorded game_moves (in ply order) on a fresh engine, whose
+ * history then covers the whole game. Stops at the first action that
+ * doesn't replay rather than produce a broken record.
+ */
+export function replayActions(actions: RecordedAction[], startFen?: string): BanChess {
+  const engine = new BanChess(startFen);
+
+  for (const { action_type, action_data } of actions) {
+    const data = action_data as { from?: string; to?: string; promotion?: 'q' | 'r' | 'b' | 'n' } | null;
+    if (!data?.from || !data?.to) break;
+
+    const result = action_type === 'ban'
+      ? engine.play({ ban: { from: data.from, to: data.to } })
+      : engine.play({ move: { from: data.from, to: data.to, ...(data.promotion && { promotion: data.promotion }) } });
+
+    if (!result.success) break;
+  }
+
+  return engine;
+}
+
+/**
+ * Move text for recorded game_moves (in ply order), numbered from the
+ * start position. Stops where replayActions does.
+ */
+export function pgnMovetext(actions: RecordedAction[], startFen?: string): string {
+  const engine = new BanChess(startFen);
+  let movetext = '';
+
+  for (const { action_type, action_data } of actions) {
+    const data = action_data as { from?: string; to?: string; promotion?: 'q' | 'r' | 'b' | 'n' } | null;
+    if (!data?.from || !data?.to) break;
+
+    const actingColor = engine.turn;
+    const fenBefore = engine.fen();
+    const result = action_type === 'ban'
+      ? engine.play({ ban: { from: data.from, to: data.to } })
+      : engine.play({ move: { from: data.from, to: data.to, ...(data.promotion && { promotion: data.promotion }) } });
+
+    if (!result.success) break;
+    movetext = appendPgnAction(
+      movetext,
+      action_type === 'ban'
+        ? { type: 'ban', from: data.from, to: data.to }
+        : { type: 'move', san: result.san ?? `${data.from}${data.to}` },
+      actingColor,
+      fenBefore,
+    );
+  }
+
+  return movetext;
+}
+
+/**
+ * Whether a replay reached the game's current_fen. It doesn't when
+ * game_moves is missing actions - games finished before the game-ending
+ * action was recorded lack their last ply - or one failed to replay.
+ */
+export function replayReachesFen(engine: BanChess, currentFen: string | null | undefined): boolean {
+  return !currentFen || engine.fen() === currentFen;
+}
+
+export class BanChessImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BanChessImportError';
+  }
+}
+
+export interface ImportedGame {
+  // Engine positioned after the last imported action, with its history
+  engine: BanChess;
+  startFen?: string;
+  headers: Record<string, string>;
+}
+
+const FEN_PATTERN = /^([pnbrqkPNBRQK1-8]+\/){7}[pnbrqkPNBRQK1-8]+ [wb] (-|[KQkq]+) (-|[a-h][36]) \d+ \d+( [wb]:(ban|[a-h][1-8][a-h][1-8]))?$/;
+const BAN_COMMENT = /^\{\s*banning:\s*([a-h][1-8])([a-h][1-8])\s*\}$/;
+const MOVETEXT_TOKEN = /\{[^}]*\}|[^\s{}]+/g;
+
+function normalizeSan(san: string): string {
+  return san.replace(/0/g, 'O').replace(/[+#!?]+$/, '').replace(/e\.p\.$/, '');
+}
+
+function loadFen(fen: string): BanChess {
+  if (!FEN_PATTERN.test(fen)) {
+    throw new BanChessImportError('Not a valid FEN (6 fields, or 7 with the ban state)');
+  }
+  // Unless a ban is already in place, the position starts with one - check it like a new game's
+  if (!/ [wb]:[a-h]/.test(fen)) {
+    const start = validateStartingFen(fen);
+    if (!start.valid) {
+      throw new BanChessImportError(start.error);
+    }
+    return new BanChess(start.fen);
+  }
+  try {
+    return new BanChess(fen);
+  } catch (error) {
+    throw new BanChessImportError(`Invalid FEN: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Loads a ban-annotated PGN or an extended (7-field) FEN.
+ * Unlike the engine's own PGN loader this handles headers (including a
+ * [FEN] start position), castling, comments and annotation glyphs, and
+ * reports the first action that can't be played instead of skipping it.
+ */
+export function importBanChess(text: string): ImportedGame {
+  const input = text.trim();
+  if (!input) {
+    throw new BanChessImportError('Nothing to import');
+  }
+
+  if (FEN_PATTERN.test(input)) {
+    return { engine: loadFen(input), startFen: input, headers: {} };
+  }
+
+  const { headers, movetext } = parsePgn(input);
+  const startFen = headers.FEN?.trim();
+  const engine = startFen ? loadFen(startFen) : new BanChess();
+
+  for (const token of movetext.match(MOVETEXT_TOKEN) ?? []) {
+    const ban = token.match(BAN_COMMENT);
+    if (ban) {
+      const result = engine.play({ ban: { from: ban[1], to: ban[2] } });
+      if (!result.success) {
+        throw new BanChessImportError(`Can't play ban ${ban[1]}${ban[2]}: ${result.error ?? 'illegal'}`);
+      }
+      continue;
+    }
+
+    // Other comments, move numbers, results and NAGs carry no action
+    const san = token.replace(/^\d+\.+/, '');
+    if (!san || token.startsWith('{') || /^(1-0|0-1|1\/2-1\/2|\*)$/.test(san) || san.startsWith('$')) {
+      continue;
+    }
+
+    if (engine.nextActionType() !== 'move') {
+      throw new BanChessImportError(`Expected a {banning: ...} comment before ${san}`);
+    }
+
+    const target = normalizeSan(san);
+    const move = engine.legalMoves().find(candidate => {
+      const probe = new BanChess(engine.fen());
+      const result = probe.play({ move: candidate });
+      return result.success && !!result.san && normalizeSan(result.san) === target;
+    });
+
+    if (!move) {
+      throw new BanChessImportError(`Illegal or banned move: ${san}`);
+    }
+    engine.play({ move });
+  }
+
+  return { engine, startFen, headers };
+}
@@ -0,0 +1,16 @@
+/**
+ * Rating display helpers. Game ratings are Glicko-2 (see the
+ * glicko2_ratings migration); puzzle ratings are plain Elo.
+ */
+
+// Above this rating deviation a game rating is still provisional (shown with "?")
+export const PROVISIONAL_DEVIATION = 110;
+
+export function formatRatingChange(change: number | null): string {
+  if (change === null) return '';
+  return change >= 0 ? `+${change}` : `${change}`;
+}
+
+export function formatRating(rating: number, deviation?: number): string {
+  return deviation !== undefined && deviation > PROVISIONAL_DEVIATION ? `${rating}?` : `${rating}`;
+}
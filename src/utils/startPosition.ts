@@ -0,0 +1,113 @@
+import { BanChess } from 'ban-chess.ts';
+
+/**
+ * Starting positions
+ * Client-side twin of supabase/functions/_shared/start-position.ts - keep the rules identical.
+ * A game starts from the standard position, a custom FEN or a Chess960
+ * position; the first action is always a ban by the side not to move.
+ */
+
+export type StartPositionKind = 'standard' | 'chess960';
+
+export interface StartPositionResult {
+  valid: boolean;
+  // The position in its stored 7-field form, when valid
+  fen?: string;
+  error?: string;
+}
+
+export const STANDARD_START_FEN = new BanChess().fen();
+
+const FEN_PATTERN = /^([pnbrqkPNBRQK1-8]+\/){7}[pnbrqkPNBRQK1-8]+ [wb] (-|[KQkq]+) (-|[a-h][36]) \d+ \d+( [wb]:(ban|[a-h][1-8][a-h][1-8]))?$/;
+
+// Knight placements on the five squares left after bishops and queen (Scharnagl numbering)
+const CHESS960_KNIGHTS = [
+  [0, 1], [0, 2], [0, 3], [0, 4], [1, 2], [1, 3], [1, 4], [2, 3], [2, 4], [3, 4],
+];
+
+/**
+ * Chess960 position `index` (0-959, 518 is the standard setup), random if omitted.
+ * chess.ts only knows standard castling, so these start without castling rights.
+ */
+export function chess960Fen(index = Math.floor(Math.random() * 960)): string {
+  const rank: (string | null)[] = Array(8).fill(null);
+  let n = index;
+
+  rank[(n % 4) * 2 + 1] = 'b';
+  n = Math.floor(n / 4);
+  rank[(n % 4) * 2] = 'b';
+  n = Math.floor(n / 4);
+
+  const empty = () => rank.flatMap((piece, file) => (piece ? [] : [file]));
+  rank[empty()[n % 6]!] = 'q';
+  n = Math.floor(n / 6);
+
+  const free = empty();
+  for (const slot of CHESS960_KNIGHTS[n]!) rank[free[slot]!] = 'n';
+
+  const [left, king, right] = empty();
+  rank[left!] = 'r';
+  rank[king!] = 'k';
+  rank[right!] = 'r';
+
+  const black = rank.join('');
+  return `${black}/pppppppp/8/8/8/8/PPPPPPPP/${black.toUpperCase()} w - - 0 1`;
+}
+
+function squaresInRank(rank: string): number {
+  return [...rank].reduce((total, c) => total + (/\d/.test(c) ? Number(c) : 1), 0);
+}
+
+/**
+ * Checks that a (6- or 7-field) FEN can start a Ban Chess game and returns it
+ * in the stored 7-field form
+ */
+export function validateStartingFen(input: string): StartPositionResult {
+  const fen = input.trim().replace(/\s+/g, ' ');
+  if (!FEN_PATTERN.test(fen)) {
+    return { valid: false, error: 'Not a valid FEN (6 fields, or 7 with the ban state)' };
+  }
+
+  const [placement = '', side, , , , , banState] = fen.split(' ');
+  const banner = side === 'w' ? 'b' : 'w';
+  if (banState && banState !== `${banner}:ban`) {
+    return { valid: false, error: 'The game must start with a ban by the side not to move' };
+  }
+
+  const ranks = placement.split('/');
+  if (ranks.some(rank => squaresInRank(rank) !== 8)) {
+    return { valid: false, error: 'Every rank needs exactly 8 squares' };
+  }
+  if ((placement.match(/K/g) ?? []).length !== 1 || (placement.match(/k/g) ?? []).length !== 1) {
+    return { valid: false, error: 'Each side needs exactly one king' };
+  }
+  if (/[pP]/.test(`${ranks[0]}${ranks[7]}`)) {
+    return { valid: false, error: "Pawns can't stand on the first or last rank" };
+  }
+
+  let engine: BanChess;
+  try {
+    engine = new BanChess(`${fen.split(' ').slice(0, 6).join(' ')} ${banner}:ban`);
+    // The side that just "moved" can't have left its king in check
+    if (new BanChess(`${placement} ${banner} - - 0 1`).inCheck()) {
+      return { valid: false, error: 'The side not to move is in check' };
+    }
+  } catch (error) {
+    return { valid: false, error: `Invalid FEN: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  if (engine.gameOver() || engine.legalBans().length === 0) {
+    return { valid: false, error: 'The side to move has no legal moves' };
+  }
+
+  return { valid: true, fen: engine.fen() };
+}
+
+/**
+ * Starting FEN for a start position kind, in the stored 7-field form
+ */
+export function startingFenFor(kind: StartPositionKind | undefined): string {
+  const result = validateStartingFen(kind === 'chess960' ? chess960Fen() : STANDARD_START_FEN);
+  // Both kinds always produce a legal position
+  return result.valid ? result.fen : STANDARD_START_FEN;
+}
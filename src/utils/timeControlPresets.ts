@@ -0,0 +1,39 @@
+/**
+ * Time control presets offered in the matchmaking queue
+ * Client-side twin of the presets in supabase/functions/_shared/time-control-utils.ts -
+ * the server only accepts these. Players are only paired with someone who
+ * chose the same preset.
+ */
+
+export type TimeControlCategory = 'bullet' | 'blitz' | 'rapid';
+
+export interface TimeControlPreset {
+  // "minutes+increment", as stored in the queue entry's preferences
+  id: string;
+  category: TimeControlCategory;
+  minutes: number;
+  // seconds added after each move
+  increment: number;
+}
+
+export const TIME_CONTROL_PRESETS: TimeControlPreset[] = [
+  { id: '1+0', category: 'bullet', minutes: 1, increment: 0 },
+  { id: '2+1', category: 'bullet', minutes: 2, increment: 1 },
+  { id: '3+0', category: 'blitz', minutes: 3, increment: 0 },
+  { id: '3+2', category: 'blitz', minutes: 3, increment: 2 },
+  { id: '5+0', category: 'blitz', minutes: 5, increment: 0 },
+  { id: '10+0', category: 'rapid', minutes: 10, increment: 0 },
+  { id: '15+10', category: 'rapid', minutes: 15, increment: 10 },
+];
+
+export const DEFAULT_TIME_CONTROL_PRESET = '10+0';
+
+export const TIME_CONTROL_CATEGORY_LABELS: Record<TimeControlCategory, string> = {
+  bullet: 'Bullet',
+  blitz: 'Blitz',
+  rapid: 'Rapid',
+};
+
+export function findTimeControlPreset(id: string): TimeControlPreset | undefined {
+  return TIME_CONTROL_PRESETS.find(preset => preset.id === id);
+}
@@ -0,0 +1,13 @@
+import { analyzeBans } from '@/utils/banAnalysis';
+import type { BanAnalysisRequest, BanAnalysisResponse } from '@/hooks/useBanAnalysis';
+
+/**
+ * Web Worker running the ban analysis off the main thread
+ */
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<BanAnalysisRequest>) => {
+  const { id, fen } = event.data;
+  const response: BanAnalysisResponse = { id, analysis: analyzeBans(fen) };
+  ctx.postMessage(response);
+};
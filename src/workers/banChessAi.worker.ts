@@ -0,0 +1,13 @@
+import { chooseAction } from '@/utils/banChessAi';
+import type { AiRequest, AiResponse } from '@/hooks/useBanChessAi';
+
+/**
+ * Web Worker running the /local computer opponent's search off the main thread
+ */
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<AiRequest>) => {
+  const { id, fen, level } = event.data;
+  const response: AiResponse = { id, action: chooseAction(fen, level) };
+  ctx.postMessage(response);
+};
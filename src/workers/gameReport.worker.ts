@@ -0,0 +1,13 @@
+import { buildGameReport } from '@/utils/gameReport';
+import type { GameReportRequest, GameReportResponse } from '@/hooks/useGameReport';
+
+/**
+ * Web Worker building post-game reports off the main thread
+ */
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (event: MessageEvent<GameReportRequest>) => {
+  const { actions, startFen } = event.data;
+  const response: GameReportResponse = { report: buildGameReport(actions, startFen) };
+  ctx.postMessage(response);
+};
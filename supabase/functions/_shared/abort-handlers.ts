@@ -0,0 +1,151 @@
+/// <reference lib="deno.ns" />
+/**
+ * Aborting games that never got going
+ * Until each side has acted once - Black's opening ban and White's first
+ * move - either player may abort, and the sweeper aborts games whose first
+ * action doesn't arrive within the abort window. Aborted games have no
+ * winner and no rating effect, and both players are released from the
+ * matchmaking entry that paired them so they can queue again.
+ */
+
+import { createLogger } from "./logger.ts";
+import type { TypedSupabaseClient } from "./db-utils.ts";
+import type { Tables } from "./database-types.ts";
+import { initSupabaseAdmin } from "./auth-utils.ts";
+import { getAppSetting } from "./app-settings.ts";
+import { finishPgn } from "./pgn.ts";
+import { broadcastGameUpdate, gameUpdateFromRow } from "./game-broadcast.ts";
+
+const logger = createLogger("ABORT");
+
+// app_settings key holding the abort window in seconds
+const ABORT_WINDOW_SETTING = "abort_window_seconds";
+const DEFAULT_ABORT_WINDOW_MS = 60_000;
+
+/**
+ * Gets the abort window from app_settings
+ */
+export async function getAbortWindowMs(
+  supabase: TypedSupabaseClient,
+): Promise<number> {
+  const seconds = Number(await getAppSetting(supabase, ABORT_WINDOW_SETTING));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : DEFAULT_ABORT_WINDOW_MS;
+}
+
+/**
+ * Abortable until both sides have a recorded action. Not decided by the
+ * version: a takeback removes an action but still moves the version forward.
+ */
+export function isAbortable(game: Pick<Tables<"games">, "status" | "white_has_acted" | "black_has_acted">): boolean {
+  return game.status === "active" && !(game.white_has_acted && game.black_has_acted);
+}
+
+/**
+ * When the player due to make their first action started waiting: game
+ * creation for the opening ban, the last action (or takeback) after that
+ */
+function firstActionWaitingSince(game: Tables<"games">): number | null {
+  const since = game.last_move_at ?? game.created_at;
+  return since ? new Date(since).getTime() : null;
+}
+
+/**
+ * Abort an active game. Returns false if it was no longer abortable at the
+ * version we read (an action landed or someone else ended it first).
+ */
+export async function abortGame(
+  supabase: TypedSupabaseClient,
+  game: Tables<"games">,
+): Promise<boolean> {
+  if (!isAbortable(game)) return false;
+
+  const now = new Date().toISOString();
+  const { data: updated, error: updateError } = await supabase
+    .from("games")
+    .update({
+      status: "aborted",
+      winner: null,
+      end_reason: "aborted",
+      draw_offered_by: null,
+      takeback_requested_by: null,
+      pgn: finishPgn(game.pgn, null, "aborted"),
+      white_turn_start_time: null,
+      black_turn_start_time: null,
+      last_clock_update: now,
+      updated_at: now,
+      version: game.version + 1,
+    })
+    .eq("id", game.id)
+    .eq("status", "active")
+    .eq("version", game.version)
+    .select("*");
+
+  if (updateError) {
+    logger.error(`Failed to abort game ${game.id}:`, updateError);
+    return false;
+  }
+
+  if (!updated || updated.length === 0) {
+    return false;
+  }
+
+  logger.info(`Aborted game ${game.id}`);
+
+  await releaseMatchmaking(game);
+  await broadcastGameUpdate(supabase, gameUpdateFromRow(updated[0]));
+
+  return true;
+}
+
+/**
+ * Drop the matched queue entries that point at the aborted game, so joining
+ * the queue again starts a fresh search instead of finding this game.
+ * Uses the service role: each entry is only writable by its own player.
+ */
+async function releaseMatchmaking(game: Tables<"games">): Promise<void> {
+  try {
+    const { error } = await initSupabaseAdmin()
+      .from("matchmaking")
+      .delete()
+      .eq("game_id", game.id);
+
+    if (error) {
+      logger.warn(`Failed to release matchmaking entries for game ${game.id}:`, error);
+    }
+  } catch (err) {
+    logger.warn(`Failed to release matchmaking entries for game ${game.id}:`, err);
+  }
+}
+
+/**
+ * Abort every game whose first action is overdue.
+ * Runs on a schedule alongside the flag sweeper.
+ */
+export async function sweepAbortableGames(
+  supabase: TypedSupabaseClient,
+): Promise<{ checked: number; aborted: string[] }> {
+  const { data: games, error } = await supabase
+    .from("games")
+    .select("*")
+    .eq("status", "active")
+    .or("white_has_acted.eq.false,black_has_acted.eq.false");
+
+  if (error) {
+    logger.error("Failed to fetch games for abort sweep:", error);
+    throw error;
+  }
+
+  const windowMs = await getAbortWindowMs(supabase);
+  const nowMs = Date.now();
+  const aborted: string[] = [];
+
+  for (const game of games || []) {
+    const since = firstActionWaitingSince(game);
+    if (since !== null && nowMs - since > windowMs && await abortGame(supabase, game)) {
+      aborted.push(game.id);
+    }
+  }
+
+  logger.info(`Abort sweep checked ${games?.length || 0} games, aborted ${aborted.length}`);
+  return { checked: games?.length || 0, aborted };
+}
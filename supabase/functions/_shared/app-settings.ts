@@ -0,0 +1,38 @@
+/// <reference lib="deno.ns" />
+/**
+ * App-wide settings
+ * One row per key in the app_settings table. Callers pass the default to
+ * use when the key has no row or can't be read, so a missing table or a
+ * failed query never blocks a game.
+ */
+
+import { createLogger } from "./logger.ts";
+import type { TypedSupabaseClient } from "./db-utils.ts";
+import type { Json } from "./database-types.ts";
+
+const logger = createLogger("APP_SETTINGS");
+
+/**
+ * The value stored for `key`, or null if it has none
+ */
+export async function getAppSetting(
+  supabase: TypedSupabaseClient,
+  key: string,
+): Promise<Json | null> {
+  try {
+    const { data, error } = await supabase
+      .from("app_settings")
+      .select("value")
+      .eq("key", key)
+      .maybeSingle();
+
+    if (error) {
+      logger.error(`Error fetching setting ${key}:`, error);
+      return null;
+    }
+    return data?.value ?? null;
+  } catch (err) {
+    logger.error(`Exception fetching setting ${key}:`, err);
+    return null;
+  }
+}
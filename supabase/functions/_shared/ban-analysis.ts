@@ -0,0 +1,102 @@
+/// <reference lib="deno.ns" />
+/**
+ * Ban analysis
+ * Server-side twin of src/utils/banAnalysis.ts - keep the rules identical.
+ * Ranks the legal bans in a ban-phase position by how much each one hurts the
+ * side being banned. The banned side answers with its best remaining move, so
+ * a ban only costs them the gap between their best move and the best move
+ * still allowed. Scores come from the computer opponent's search
+ * (ban-chess-ai.ts), in centipawns from White's point of view.
+ */
+
+import { BanChess } from "https://esm.sh/ban-chess.ts@1.1.1";
+import type { Ban, Color } from "https://esm.sh/ban-chess.ts@1.1.1";
+import { MATE, type ScoredMove, scoreReplies } from "./ban-chess-ai.ts";
+
+export interface BanRanking {
+  ban: Ban;
+  // Evaluation after the banned side's best remaining reply
+  score: number;
+  // How much worse the banned side does than with no ban at all (0 = harmless)
+  impact: number;
+  // The side in check is left without a legal move
+  isBanMate: boolean;
+}
+
+export interface BanAnalysis {
+  // Whose move is being banned
+  bannedSide: Color;
+  // Evaluation if the banned side could play any move
+  baseline: number;
+  // Most damaging ban first
+  rankings: BanRanking[];
+  // The single escape from check, when banning it mates
+  banMate: Ban | null;
+}
+
+export const DEFAULT_ANALYSIS_DEPTH = 2;
+
+export function isMateScore(score: number): boolean {
+  return Math.abs(score) >= MATE;
+}
+
+/**
+ * Analyses the pending ban in `fen` (an extended FEN), or returns null when
+ * no ban is due or the game is over
+ */
+export function analyzeBans(fen: string, depth = DEFAULT_ANALYSIS_DEPTH): BanAnalysis | null {
+  const engine = new BanChess(fen);
+  if (engine.gameOver() || engine.nextActionType() !== "ban") return null;
+  return rankBans(fen, scoreReplies(fen, depth));
+}
+
+/**
+ * Ranks the bans in `fen` given the banned side's replies, as scored by
+ * scoreReplies - for callers that need the reply scores too
+ */
+export function rankBans(fen: string, replies: ScoredMove[]): BanAnalysis | null {
+  const engine = new BanChess(fen);
+  if (engine.gameOver() || engine.nextActionType() !== "ban") return null;
+
+  const bans = engine.legalBans();
+  if (bans.length === 0) return null;
+
+  // The banner is engine.turn; the board's side to move is the one banned
+  const bannedSide: Color = engine.turn === "white" ? "black" : "white";
+  const sign = bannedSide === "white" ? 1 : -1;
+  const inCheck = engine.inCheck();
+
+  // Best reply per from-to pair - a ban removes every promotion choice at once
+  const bestByBan = new Map<string, number>();
+  for (const { move, score } of replies) {
+    const key = `${move.from}${move.to}`;
+    const current = bestByBan.get(key);
+    if (current === undefined || score * sign > current * sign) bestByBan.set(key, score);
+  }
+
+  const scores = [...bestByBan.values()];
+  const baseline = scores.reduce((best, score) => (score * sign > best * sign ? score : best));
+
+  const rankings = bans.map((ban) => {
+    const key = `${ban.from}${ban.to}`;
+    const remaining = [...bestByBan.entries()].filter(([other]) => other !== key).map(([, score]) => score);
+
+    if (remaining.length === 0) {
+      // Nothing left to play: mate in check, otherwise stalemate
+      const score = inCheck ? -sign * MATE : 0;
+      return { ban, score, impact: (baseline - score) * sign, isBanMate: inCheck };
+    }
+
+    const score = remaining.reduce((best, s) => (s * sign > best * sign ? s : best));
+    return { ban, score, impact: (baseline - score) * sign, isBanMate: false };
+  });
+
+  rankings.sort((a, b) => b.impact - a.impact);
+
+  return {
+    bannedSide,
+    baseline,
+    rankings,
+    banMate: rankings.find((r) => r.isBanMate)?.ban ?? null,
+  };
+}
@@ -0,0 +1,317 @@
+/// <reference lib="deno.ns" />
+/**
+ * Ban Chess search used by the bot accounts.
+ * Server-side twin of src/utils/banChessAi.ts - keep the search identical.
+ *
+ * The search walks "ban nodes": a position where one side bans and the other
+ * then moves. The mover answers a ban with its best remaining move, so the
+ * banner always bans the mover's best move and the node is worth the mover's
+ * second-best move. That keeps the tree at one branch per move instead of
+ * bans x moves. A mover left with a single move that is in check is mated by
+ * banning it, and a mover with no moves at all is mated or stalemated.
+ * Scores are from White's point of view.
+ */
+
+import { BanChess } from "https://esm.sh/ban-chess.ts@1.1.1";
+import type { Action, Ban, Color, Move } from "https://esm.sh/ban-chess.ts@1.1.1";
+
+export type AiLevel = "easy" | "medium" | "hard";
+
+interface LevelSettings {
+  // Moves searched ahead, each followed by the ban on the reply
+  depth: number;
+  // Deeper iterations are abandoned past this, keeping the last complete one
+  timeLimitMs: number;
+  // Random centipawns added to each root candidate
+  noise: number;
+}
+
+const LEVELS: Record<AiLevel, LevelSettings> = {
+  easy: { depth: 1, timeLimitMs: 1000, noise: 120 },
+  medium: { depth: 2, timeLimitMs: 3000, noise: 15 },
+  hard: { depth: 4, timeLimitMs: 8000, noise: 0 },
+};
+
+export const AI_LEVELS = Object.keys(LEVELS) as AiLevel[];
+
+// Scores at or beyond this (in either direction) are forced mates
+export const MATE = 100000;
+
+const PIECE_VALUES: Record<string, number> = { p: 100, n: 320, b: 330, r: 500, q: 900, k: 0 };
+
+// A ban that matches no move: loading it puts a position in the move phase unrestricted
+const NO_BAN = "a1a1";
+
+class SearchTimeout extends Error {}
+
+type Board = Map<string, string>;
+
+export interface ScoredMove {
+  move: Move;
+  score: number;
+}
+
+interface BanNodeResult {
+  score: number;
+  // The mover's best move, which is what gets banned
+  ban: Ban | null;
+}
+
+function parseBoard(fen: string): Board {
+  const board: Board = new Map();
+  (fen.split(" ")[0] ?? "").split("/").forEach((rank, rankIndex) => {
+    let file = 0;
+    for (const c of rank) {
+      if (/\d/.test(c)) {
+        file += Number(c);
+      } else {
+        board.set(`${"abcdefgh"[file]}${8 - rankIndex}`, c);
+        file++;
+      }
+    }
+  });
+  return board;
+}
+
+// Material plus small bonuses for central minor pieces and advanced pawns, White's view
+function pieceScore(piece: string, square: string): number {
+  const type = piece.toLowerCase();
+  const sign = piece === type ? -1 : 1;
+  const file = square.charCodeAt(0) - 97;
+  const rank = Number(square[1]) - 1;
+  const centrality = 3.5 - Math.max(Math.abs(file - 3.5), Math.abs(rank - 3.5));
+
+  let bonus = 0;
+  if (type === "n" || type === "b") bonus = centrality * 8;
+  if (type === "p") bonus = (sign > 0 ? rank - 1 : 6 - rank) * 6 + (centrality > 1 ? 8 : 0);
+
+  return sign * ((PIECE_VALUES[type] ?? 0) + bonus);
+}
+
+function evaluate(board: Board): number {
+  let score = 0;
+  board.forEach((piece, square) => {
+    score += pieceScore(piece, square);
+  });
+  return score;
+}
+
+// Score after `move` without playing it; used at the leaves and for move ordering
+function scoreAfterMove(board: Board, boardScore: number, move: Move): number {
+  const piece = board.get(move.from);
+  if (!piece) return boardScore;
+
+  let score = boardScore - pieceScore(piece, move.from);
+  const captured = board.get(move.to);
+  if (captured) {
+    score -= pieceScore(captured, move.to);
+  } else if (piece.toLowerCase() === "p" && move.from[0] !== move.to[0]) {
+    // En passant
+    score -= pieceScore(piece === "p" ? "P" : "p", `${move.to[0]}${move.from[1]}`);
+  }
+
+  const placed = move.promotion
+    ? piece === "p" ? move.promotion : move.promotion.toUpperCase()
+    : piece;
+  return score + pieceScore(placed, move.to);
+}
+
+// Board part (first 6 fields) of a FEN
+function baseFen(fen: string): string {
+  return fen.split(" ").slice(0, 6).join(" ");
+}
+
+function moverOf(base: string): Color {
+  return base.split(" ")[1] === "w" ? "white" : "black";
+}
+
+function movePhase(base: string): BanChess {
+  return new BanChess(`${base} ${base.split(" ")[1]}:${NO_BAN}`);
+}
+
+// Higher is better for `color`
+function better(color: Color, a: number, b: number): boolean {
+  return color === "white" ? a > b : a < b;
+}
+
+function mateScore(mated: Color, depth: number): number {
+  // Nearer mates (more depth left) score further from zero
+  return mated === "white" ? -(MATE + depth) : MATE + depth;
+}
+
+class Search {
+  private readonly deadline: number;
+
+  constructor(timeLimitMs: number) {
+    this.deadline = Date.now() + timeLimitMs;
+  }
+
+  /**
+   * Value of the position `base` just before its side to move is banned.
+   * Stops early once the value is certain to be no better for the banner than
+   * `cutoff`, which is the banner's second-best option in the parent node.
+   */
+  banNode(base: string, depth: number, cutoff: number | null): BanNodeResult {
+    if (Date.now() > this.deadline) throw new SearchTimeout();
+
+    const engine = movePhase(base);
+    const mover = moverOf(base);
+    const moves = engine.legalMoves();
+    if (moves.length === 0) {
+      return { score: engine.inCheck() ? mateScore(mover, depth) : 0, ban: null };
+    }
+
+    // A ban removes every move between the same squares (all promotion choices)
+    const squares = new Set(moves.map(m => `${m.from}${m.to}`));
+    if (squares.size === 1) {
+      const only = moves[0];
+      return {
+        score: engine.inCheck() ? mateScore(mover, depth) : 0,
+        ban: { from: only.from, to: only.to },
+      };
+    }
+
+    const board = parseBoard(base);
+    const boardScore = evaluate(board);
+    const ordered = moves
+      .map(move => ({ move, score: scoreAfterMove(board, boardScore, move) }))
+      .sort((a, b) => (mover === "white" ? b.score - a.score : a.score - b.score));
+
+    // Best score per from-to pair, kept sorted best first
+    let best: ScoredMove | null = null;
+    let second: ScoredMove | null = null;
+    for (const candidate of ordered) {
+      const score = depth <= 1
+        ? candidate.score
+        : this.afterMove(base, candidate.move, depth, second && best ? second.score : null);
+      const scored = { move: candidate.move, score };
+
+      if (!best || better(mover, score, best.score)) {
+        if (!best || `${best.move.from}${best.move.to}` !== `${scored.move.from}${scored.move.to}`) second = best;
+        best = scored;
+      } else if (
+        `${best.move.from}${best.move.to}` !== `${scored.move.from}${scored.move.to}`
+        && (!second || better(mover, score, second.score))
+      ) {
+        second = scored;
+      }
+
+      // The mover's second-best only improves from here on
+      if (cutoff !== null && second && !better(mover, cutoff, second.score)) break;
+    }
+
+    return {
+      score: second!.score,
+      ban: { from: best!.move.from, to: best!.move.to },
+    };
+  }
+
+  /**
+   * Value after the side to move in `base` plays `move`; the mover then bans
+   * the reply
+   */
+  afterMove(base: string, move: Move, depth: number, cutoff: number | null): number {
+    const engine = movePhase(base);
+    engine.play({ move });
+    return this.banNode(baseFen(engine.fen()), depth - 1, cutoff).score;
+  }
+}
+
+/**
+ * Every move of the side to move in the ban-phase position `fen`, scored
+ * `depth` moves deep as if it were played (no ban). Used by the ban analysis.
+ */
+export function scoreReplies(fen: string, depth: number): ScoredMove[] {
+  const base = baseFen(fen);
+  const board = parseBoard(base);
+  const boardScore = evaluate(board);
+  const search = new Search(Infinity);
+
+  return movePhase(base).legalMoves().map((move) => ({
+    move,
+    score: depth <= 1 ? scoreAfterMove(board, boardScore, move) : search.afterMove(base, move, depth, null),
+  }));
+}
+
+function withNoise(score: number, noise: number): number {
+  return noise > 0 && Math.abs(score) < MATE ? score + (Math.random() * 2 - 1) * noise : score;
+}
+
+function chooseBan(base: string, settings: LevelSettings): Ban | null {
+  let ban: Ban | null = null;
+
+  for (let depth = 1; depth <= settings.depth; depth++) {
+    // The first iteration always completes so there is something to play
+    const search = new Search(depth === 1 ? Infinity : settings.timeLimitMs);
+    try {
+      ban = search.banNode(base, depth, null).ban;
+    } catch (error) {
+      if (error instanceof SearchTimeout) break;
+      throw error;
+    }
+  }
+
+  // Easy sometimes bans something other than the best reply
+  if (ban && settings.noise > 0) {
+    const engine = movePhase(base);
+    if (!engine.inCheck() && Math.random() * 400 < settings.noise) {
+      const bans = engine.legalMoves();
+      const random = bans[Math.floor(Math.random() * bans.length)];
+      if (random) ban = { from: random.from, to: random.to };
+    }
+  }
+
+  return ban;
+}
+
+function chooseMove(fen: string, settings: LevelSettings): Move | null {
+  const engine = new BanChess(fen);
+  const mover = engine.turn;
+  const moves = engine.legalMoves();
+  if (moves.length === 0) return null;
+
+  const base = baseFen(fen);
+  const board = parseBoard(base);
+  const boardScore = evaluate(board);
+  let choice: Move = moves[0];
+
+  for (let depth = 1; depth <= settings.depth; depth++) {
+    const search = new Search(depth === 1 ? Infinity : settings.timeLimitMs);
+    try {
+      let best: ScoredMove | null = null;
+      for (const move of moves) {
+        const score = withNoise(
+          depth <= 1
+            ? scoreAfterMove(board, boardScore, move)
+            : search.afterMove(base, move, depth, best ? best.score : null),
+          settings.noise,
+        );
+        if (!best || better(mover, score, best.score)) best = { move, score };
+      }
+      choice = best!.move;
+    } catch (error) {
+      if (error instanceof SearchTimeout) break;
+      throw error;
+    }
+  }
+
+  return choice;
+}
+
+/**
+ * The computer's next action in `fen` (a ban or a move, whichever is due),
+ * or null when the game is over. `timeLimitMs` overrides the level's budget.
+ */
+export function chooseAction(fen: string, level: AiLevel, timeLimitMs?: number): Action | null {
+  const engine = new BanChess(fen);
+  if (engine.gameOver()) return null;
+
+  const settings = { ...LEVELS[level], ...(timeLimitMs !== undefined && { timeLimitMs }) };
+  if (engine.nextActionType() === "ban") {
+    const ban = chooseBan(baseFen(fen), settings);
+    return ban ? { ban } : null;
+  }
+
+  const move = chooseMove(fen, settings);
+  return move ? { move } : null;
+}
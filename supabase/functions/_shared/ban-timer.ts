@@ -0,0 +1,116 @@
+/// <reference lib="deno.ns" />
+/**
+ * Ban-phase timer
+ * A time control can give each ban its own limit (time_control.ban_time_limit,
+ * in milliseconds) on top of the shared clock. When a player lets it run out,
+ * the sweeper picks a random legal ban and plays it for them through the
+ * normal action pipeline, so the game goes on instead of being lost on time.
+ * The opening ban isn't clocked; the abort window covers it instead.
+ */
+
+import { BanChess } from "https://esm.sh/ban-chess.ts@1.1.1";
+import type { User } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createLogger } from "./logger.ts";
+import type { TypedSupabaseClient } from "./db-utils.ts";
+import type { Json, Tables } from "./database-types.ts";
+import { processGameAction } from "./game-actions.ts";
+import { flagGame, getFlaggedColor } from "./clock-handlers.ts";
+
+const logger = createLogger("BAN_TIMER");
+
+/**
+ * Read the per-ban limit (ms) from a game's time_control JSON, if it has one
+ */
+export function getBanTimeLimit(timeControl: Json | null): number | null {
+  const tc = timeControl as { ban_time_limit?: number } | null;
+  const limit = Number(tc?.ban_time_limit);
+  return Number.isFinite(limit) && limit > 0 ? limit : null;
+}
+
+/**
+ * When the pending ban runs out (ms since epoch), or null if no ban is timed
+ */
+export function getBanDeadline(game: Tables<"games">): number | null {
+  if (game.status !== "active" || game.ban_chess_state !== "waiting_for_ban") return null;
+
+  const limit = getBanTimeLimit(game.time_control);
+  if (!limit) return null;
+
+  const turnStartTime = game.banning_player === "white"
+    ? game.white_turn_start_time
+    : game.banning_player === "black"
+    ? game.black_turn_start_time
+    : null;
+  return turnStartTime ? turnStartTime + limit : null;
+}
+
+/**
+ * Play a random legal ban for the player whose ban timed out.
+ * Returns false if the game moved on first (the ban came in, or it ended).
+ */
+export async function playRandomBan(
+  supabase: TypedSupabaseClient,
+  game: Tables<"games">,
+): Promise<boolean> {
+  // Out of time on the main clock too: that loses the game, no ban is played
+  const flaggedColor = getFlaggedColor(game);
+  if (flaggedColor) {
+    await flagGame(supabase, game, flaggedColor);
+    return false;
+  }
+
+  const engine = new BanChess(game.current_fen || undefined);
+  const bans = engine.legalBans();
+  if (bans.length === 0) return false;
+
+  const ban = bans[Math.floor(Math.random() * bans.length)];
+  const playerId = engine.turn === "white" ? game.white_player_id : game.black_player_id;
+
+  // Pinned to the version we read, so a ban that just landed wins
+  const response = await processGameAction(supabase, { id: playerId } as User, {
+    gameId: game.id,
+    action: { ban: { from: ban.from, to: ban.to } },
+    expectedVersion: game.version,
+  });
+
+  if (!response.ok) {
+    logger.warn(`Random ban for game ${game.id} was not applied (${response.status})`);
+    return false;
+  }
+
+  logger.info(`Ban timed out in game ${game.id}, banned ${ban.from}${ban.to} for ${engine.turn}`);
+  return true;
+}
+
+/**
+ * Play a random ban in every game whose pending ban is overdue.
+ * Runs on a schedule alongside the flag sweeper.
+ */
+export async function sweepBanTimeouts(
+  supabase: TypedSupabaseClient,
+): Promise<{ checked: number; banned: string[] }> {
+  const { data: games, error } = await supabase
+    .from("games")
+    .select("*")
+    .eq("status", "active")
+    .eq("ban_chess_state", "waiting_for_ban")
+    .not("time_control->ban_time_limit", "is", null);
+
+  if (error) {
+    logger.error("Failed to fetch games for ban timer sweep:", error);
+    throw error;
+  }
+
+  const nowMs = Date.now();
+  const banned: string[] = [];
+
+  for (const game of games || []) {
+    const deadline = getBanDeadline(game);
+    if (deadline !== null && nowMs >= deadline && await playRandomBan(supabase, game)) {
+      banned.push(game.id);
+    }
+  }
+
+  logger.info(`Ban timer sweep checked ${games?.length || 0} games, banned ${banned.length}`);
+  return { checked: games?.length || 0, banned };
+}
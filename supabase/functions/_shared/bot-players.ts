@@ -0,0 +1,227 @@
+/// <reference lib="deno.ns" />
+/**
+ * Bot accounts
+ * A player who has waited in the queue longer than the bot_match_wait_seconds
+ * setting with nobody to pair with is matched against a bot instead. Bots are
+ * ordinary auth users, created on demand, flagged with profiles.is_bot. Their
+ * bans and moves are chosen by the ban-chess-ai search and submitted through
+ * processGameAction, so they get exactly the validation a human's would.
+ * Bot games are marked with games.is_bot_game and never rated.
+ */
+
+import { BanChess } from "https://esm.sh/ban-chess.ts@1.1.1";
+import type { User } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createLogger } from "./logger.ts";
+import type { TypedSupabaseClient } from "./db-utils.ts";
+import type { Tables } from "./database-types.ts";
+import { initSupabaseAdmin } from "./auth-utils.ts";
+import { getAppSetting } from "./app-settings.ts";
+import { processGameAction } from "./game-actions.ts";
+import { AI_LEVELS, type AiLevel, chooseAction } from "./ban-chess-ai.ts";
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const logger = createLogger("BOTS");
+
+// app_settings key holding how long a player waits before being offered a bot; 0 turns bots off
+const BOT_WAIT_SETTING = "bot_match_wait_seconds";
+const DEFAULT_BOT_WAIT_MS = 45_000;
+
+// Edge functions get little CPU time per request, so bots search briefly
+const BOT_THINK_TIME_MS = 1000;
+
+// A bot acts at most twice in a row (its move, then its ban)
+const MAX_BOT_ACTIONS_PER_TURN = 2;
+
+const BOT_ACCOUNTS: Record<AiLevel, { username: string; rating: number }> = {
+  easy: { username: "BanBot_Easy", rating: 800 },
+  medium: { username: "BanBot_Medium", rating: 1200 },
+  hard: { username: "BanBot_Hard", rating: 1600 },
+};
+
+/**
+ * Gets the queue wait before a bot is offered, or null if bots are off
+ */
+export async function getBotWaitMs(
+  supabase: TypedSupabaseClient,
+): Promise<number | null> {
+  const value = await getAppSetting(supabase, BOT_WAIT_SETTING);
+  if (value === null) return DEFAULT_BOT_WAIT_MS;
+
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds)) return DEFAULT_BOT_WAIT_MS;
+  return seconds > 0 ? seconds * 1000 : null;
+}
+
+/**
+ * The bot profiles, creating the auth users for any level that has none yet
+ */
+async function ensureBotProfiles(
+  supabase: TypedSupabaseClient,
+): Promise<Tables<"profiles">[]> {
+  const { data: existing, error } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("is_bot", true);
+
+  if (error) {
+    logger.error("Failed to fetch bot profiles:", error);
+    return [];
+  }
+
+  const missing = AI_LEVELS.filter((level) => !existing?.some((bot) => bot.bot_level === level));
+  if (missing.length === 0) return existing ?? [];
+
+  for (const level of missing) {
+    const { username, rating } = BOT_ACCOUNTS[level];
+    const { data: created, error: createError } = await supabase.auth.admin.createUser({
+      email: `${username.toLowerCase()}@bots.invalid`,
+      email_confirm: true,
+      user_metadata: { username },
+    });
+
+    // Another request may have created it first; it's picked up next time
+    if (createError || !created.user) {
+      logger.warn(`Failed to create ${level} bot account:`, createError);
+      continue;
+    }
+
+    // handle_new_user has created the profile; mark it as a bot
+    const { error: updateError } = await supabase
+      .from("profiles")
+      .update({ is_bot: true, bot_level: level, elo_rating: rating })
+      .eq("id", created.user.id);
+
+    if (updateError) {
+      logger.error(`Failed to mark ${level} bot profile:`, updateError);
+    } else {
+      logger.info(`Created ${level} bot account ${created.user.id}`);
+    }
+  }
+
+  const { data: bots } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("is_bot", true);
+  return bots ?? [];
+}
+
+/**
+ * The bot to pair `playerId` with: the one rated closest to them
+ */
+export async function findBotOpponent(
+  supabase: TypedSupabaseClient,
+  playerId: string,
+): Promise<string | null> {
+  const bots = await ensureBotProfiles(supabase);
+  if (bots.length === 0) return null;
+
+  const { data: player } = await supabase
+    .from("profiles")
+    .select("elo_rating")
+    .eq("id", playerId)
+    .maybeSingle();
+  const rating = player?.elo_rating ?? 1200;
+
+  const closest = bots.reduce((best, bot) =>
+    Math.abs((bot.elo_rating ?? 1200) - rating) < Math.abs((best.elo_rating ?? 1200) - rating) ? bot : best
+  );
+  return closest.id;
+}
+
+/**
+ * Plays the bot's actions while it is the bot's turn in a bot game.
+ * Returns how many actions were played.
+ */
+export async function playBotTurns(
+  supabase: TypedSupabaseClient,
+  gameId: string,
+): Promise<number> {
+  let played = 0;
+
+  while (played < MAX_BOT_ACTIONS_PER_TURN) {
+    const { data: game, error } = await supabase
+      .from("games")
+      .select("*")
+      .eq("id", gameId)
+      .maybeSingle();
+
+    if (error || !game) {
+      logger.error(`Failed to load bot game ${gameId}:`, error);
+      break;
+    }
+    if (!game.is_bot_game || game.status !== "active") break;
+
+    const engine = new BanChess(game.current_fen || undefined);
+    const actorId = engine.turn === "white" ? game.white_player_id : game.black_player_id;
+    if (!actorId) break;
+
+    const { data: bot } = await supabase
+      .from("profiles")
+      .select("bot_level")
+      .eq("id", actorId)
+      .eq("is_bot", true)
+      .maybeSingle();
+    if (!bot) break;
+
+    const level = AI_LEVELS.find((l) => l === bot.bot_level) ?? "medium";
+    const action = chooseAction(game.current_fen, level, BOT_THINK_TIME_MS);
+    if (!action) break;
+
+    // Pinned to the version we searched, so a takeback or abort in the meantime wins
+    const response = await processGameAction(supabase, { id: actorId } as User, {
+      gameId,
+      action,
+      expectedVersion: game.version,
+    });
+
+    if (!response.ok) {
+      logger.warn(`Bot action in game ${gameId} was not applied (${response.status})`);
+      break;
+    }
+    played++;
+  }
+
+  return played;
+}
+
+/**
+ * Lets the bot answer after the response has been sent, so the player who
+ * just acted doesn't wait for the search
+ */
+export function scheduleBotTurns(gameId: string): void {
+  const task = (async () => await playBotTurns(initSupabaseAdmin(), gameId))().catch((err) => {
+    logger.error(`Bot turn failed in game ${gameId}:`, err);
+  });
+
+  if (typeof EdgeRuntime !== "undefined") {
+    EdgeRuntime.waitUntil(task);
+  }
+}
+
+/**
+ * Plays any bot turns that were missed (e.g. a background task was cut off).
+ * Runs on a schedule alongside the other sweepers.
+ */
+export async function sweepBotGames(
+  supabase: TypedSupabaseClient,
+): Promise<{ checked: number; played: string[] }> {
+  const { data: games, error } = await supabase
+    .from("games")
+    .select("id")
+    .eq("status", "active")
+    .eq("is_bot_game", true);
+
+  if (error) {
+    logger.error("Failed to fetch bot games for sweep:", error);
+    throw error;
+  }
+
+  const played: string[] = [];
+  for (const game of games || []) {
+    if (await playBotTurns(supabase, game.id) > 0) played.push(game.id);
+  }
+
+  logger.info(`Bot sweep checked ${games?.length || 0} games, played in ${played.length}`);
+  return { checked: games?.length || 0, played };
+}
@@ -6,6 +6,9 @@
 
 import { createLogger } from "./logger.ts";
 import type { TypedSupabaseClient } from "./db-utils.ts";
+import type { Json, Tables } from "./database-types.ts";
+import { finishPgn } from "./pgn.ts";
+import { broadcastGameUpdate, gameUpdateFromRow } from "./game-broadcast.ts";
 
 const logger = createLogger("CLOCK_HANDLERS");
 
@@ -27,6 +30,149 @@ export interface ClockUpdate {
   incrementApplied: boolean;
   whiteTime: number;
   blackTime: number;
+  activeColor: "white" | "black" | null;
+  serverTime: number;
+}
+
+/**
+ * Clock-related columns of a games row
+ */
+export interface GameClockFields {
+  white_time_remaining: number | null;
+  black_time_remaining: number | null;
+  white_turn_start_time: number | null;
+  black_turn_start_time: number | null;
+  time_control: Json | null;
+}
+
+/**
+ * Clock columns to merge into the games update for an accepted action
+ */
+export interface ActionClockResult {
+  fields: {
+    white_time_remaining: number;
+    black_time_remaining: number;
+    white_turn_start_time: number | null;
+    black_turn_start_time: number | null;
+    last_clock_update: string;
+    clock_state: Json;
+  };
+  clockUpdate: ClockUpdate;
+}
+
+/**
+ * Read the increment (ms) from a game's time_control JSON
+ */
+export function getIncrement(timeControl: Json | null): number {
+  const tc = timeControl as { increment?: number } | null;
+  return tc?.increment || 0;
+}
+
+/**
+ * Compute the clock columns after an accepted move or ban.
+ *
+ * Deducts the time the acting player used, applies the increment when the
+ * turn passes to the opponent, and starts the next actor's clock - all as
+ * one set of columns so the caller can write them in the same update as the
+ * new position. Pass `nextColor = null` when the action ended the game.
+ */
+export function computeActionClock(
+  gameId: string,
+  game: GameClockFields,
+  actingColor: "white" | "black",
+  nextColor: "white" | "black" | null,
+  nowMs = Date.now(),
+): ActionClockResult {
+  const turnStartTime = actingColor === "white"
+    ? game.white_turn_start_time
+    : game.black_turn_start_time;
+
+  let whiteTime = game.white_time_remaining ?? 0;
+  let blackTime = game.black_time_remaining ?? 0;
+
+  // Clock wasn't running (e.g. the opening ban) - nothing to deduct
+  const timeUsed = turnStartTime ? Math.max(0, nowMs - turnStartTime) : 0;
+
+  // In Ban Chess a player moves and then bans, so the clock only passes
+  // to the opponent after a ban. That is when the increment is earned.
+  const increment = getIncrement(game.time_control);
+  const incrementApplied = nextColor !== null && nextColor !== actingColor && increment > 0;
+
+  let timeRemaining = Math.max(0, (actingColor === "white" ? whiteTime : blackTime) - timeUsed);
+  if (incrementApplied) {
+    timeRemaining += increment;
+  }
+
+  if (actingColor === "white") {
+    whiteTime = timeRemaining;
+  } else {
+    blackTime = timeRemaining;
+  }
+
+  const clockUpdate: ClockUpdate = {
+    type: "clock_update",
+    gameId,
+    color: actingColor,
+    timeRemaining,
+    turnStartTime: nowMs,
+    incrementApplied,
+    whiteTime,
+    blackTime,
+    activeColor: nextColor,
+    serverTime: nowMs,
+  };
+
+  return {
+    fields: {
+      white_time_remaining: whiteTime,
+      black_time_remaining: blackTime,
+      white_turn_start_time: nextColor === "white" ? nowMs : null,
+      black_turn_start_time: nextColor === "black" ? nowMs : null,
+      last_clock_update: new Date(nowMs).toISOString(),
+      clock_state: clockUpdate as unknown as Json,
+    },
+    clockUpdate,
+  };
+}
+
+/**
+ * Compute the clock columns for a game ending off the board (resignation,
+ * draw agreement): the running clock is charged up to now and both stop.
+ * `color` is the player whose request ended the game.
+ */
+export function computeStoppedClock(
+  gameId: string,
+  game: GameClockFields,
+  color: "white" | "black",
+  nowMs = Date.now(),
+): ActionClockResult {
+  const whiteTime = getRunningTimeRemaining(game, "white", nowMs);
+  const blackTime = getRunningTimeRemaining(game, "black", nowMs);
+
+  const clockUpdate: ClockUpdate = {
+    type: "clock_update",
+    gameId,
+    color,
+    timeRemaining: color === "white" ? whiteTime : blackTime,
+    turnStartTime: nowMs,
+    incrementApplied: false,
+    whiteTime,
+    blackTime,
+    activeColor: null,
+    serverTime: nowMs,
+  };
+
+  return {
+    fields: {
+      white_time_remaining: whiteTime,
+      black_time_remaining: blackTime,
+      white_turn_start_time: null,
+      black_turn_start_time: null,
+      last_clock_update: new Date(nowMs).toISOString(),
+      clock_state: clockUpdate as unknown as Json,
+    },
+    clockUpdate,
+  };
 }
 
 /**
@@ -185,6 +331,8 @@ export async function handleMoveClockUpdate(
       incrementApplied: (game.time_control?.increment || 0) > 0,
       whiteTime: game.white_time_remaining,
       blackTime: game.black_time_remaining,
+      activeColor: opponentColor,
+      serverTime: nowMs,
     };
     
     // Store clock state in database
@@ -204,6 +352,102 @@ export async function handleMoveClockUpdate(
   }
 }
 
+/**
+ * Remaining time for a color, counting down a running clock to `nowMs`
+ */
+export function getRunningTimeRemaining(
+  game: GameClockFields,
+  color: "white" | "black",
+  nowMs = Date.now(),
+): number {
+  const remaining = (color === "white" ? game.white_time_remaining : game.black_time_remaining) ?? 0;
+  const turnStartTime = color === "white" ? game.white_turn_start_time : game.black_turn_start_time;
+  return turnStartTime ? Math.max(0, remaining - (nowMs - turnStartTime)) : remaining;
+}
+
+/**
+ * The color whose running clock has reached zero, if any
+ */
+export function getFlaggedColor(
+  game: GameClockFields,
+  nowMs = Date.now(),
+): "white" | "black" | null {
+  if (game.white_turn_start_time && getRunningTimeRemaining(game, "white", nowMs) <= 0) {
+    return "white";
+  }
+  if (game.black_turn_start_time && getRunningTimeRemaining(game, "black", nowMs) <= 0) {
+    return "black";
+  }
+  return null;
+}
+
+/**
+ * End a game on time: the flagged player loses, both clocks stop,
+ * and the result is broadcast on the game channel.
+ * Returns false if the game was no longer active (someone else ended it first).
+ */
+export async function flagGame(
+  supabase: TypedSupabaseClient,
+  game: Tables<"games">,
+  flaggedColor: "white" | "black",
+): Promise<boolean> {
+  const nowMs = Date.now();
+  const winner = flaggedColor === "white" ? "black" : "white";
+  const whiteTime = flaggedColor === "white" ? 0 : getRunningTimeRemaining(game, "white", nowMs);
+  const blackTime = flaggedColor === "black" ? 0 : getRunningTimeRemaining(game, "black", nowMs);
+
+  const clockUpdate: ClockUpdate = {
+    type: "clock_update",
+    gameId: game.id,
+    color: flaggedColor,
+    timeRemaining: 0,
+    turnStartTime: nowMs,
+    incrementApplied: false,
+    whiteTime,
+    blackTime,
+    activeColor: null,
+    serverTime: nowMs,
+  };
+
+  // Only finish the game if it is still active at the version we read,
+  // so a move that landed just before the sweep isn't overwritten
+  const { data: updated, error: updateError } = await supabase
+    .from("games")
+    .update({
+      status: "completed",
+      winner,
+      end_reason: "timeout",
+      pgn: finishPgn(game.pgn, winner, "timeout"),
+      white_time_remaining: whiteTime,
+      black_time_remaining: blackTime,
+      white_turn_start_time: null,
+      black_turn_start_time: null,
+      last_clock_update: new Date(nowMs).toISOString(),
+      clock_state: clockUpdate as unknown as Json,
+      updated_at: new Date(nowMs).toISOString(),
+      version: game.version + 1,
+    })
+    .eq("id", game.id)
+    .eq("status", "active")
+    .eq("version", game.version)
+    .select("*");
+
+  if (updateError) {
+    logger.error(`Failed to update game after ${flaggedColor} timeout:`, updateError);
+    return false;
+  }
+
+  if (!updated || updated.length === 0) {
+    return false;
+  }
+
+  logger.info(`${flaggedColor === "white" ? "White" : "Black"} flagged in game ${game.id}`);
+
+  await broadcastGameUpdate(supabase, gameUpdateFromRow(updated[0], { clock: clockUpdate }));
+
+  return true;
+}
+
 /**
  * Check for time violations
  */
@@ -211,8 +455,6 @@ export async function checkTimeViolations(
   supabase: TypedSupabaseClient,
   gameId: string
 ): Promise<"white" | "black" | null> {
-  const nowMs = Date.now();
-  
   try {
     const { data: game, error } = await supabase
       .from("games")
@@ -224,63 +466,50 @@ export async function checkTimeViolations(
       return null;
     }
     
-    // Calculate current time remaining
-    const whiteRemaining = game.white_turn_start_time
-      ? Math.max(0, game.white_time_remaining - (nowMs - game.white_turn_start_time))
-      : game.white_time_remaining;
-    
-    const blackRemaining = game.black_turn_start_time
-      ? Math.max(0, game.black_time_remaining - (nowMs - game.black_turn_start_time))
-      : game.black_time_remaining;
-    
-    // Check for violations
-    if (whiteRemaining <= 0 && game.white_turn_start_time) {
-      // White flagged
-      const { error: updateError } = await supabase
-        .from("games")
-        .update({
-          status: "finished",
-          result: "black",
-          end_reason: "timeout",
-          white_time_remaining: 0,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", gameId);
-      
-      if (updateError) {
-        logger.error("Failed to update game after white timeout:", updateError);
-      }
-      
-      logger.info(`White flagged in game ${gameId}`);
-      return "white";
-    } else if (blackRemaining <= 0 && game.black_turn_start_time) {
-      // Black flagged
-      const { error: updateError } = await supabase
-        .from("games")
-        .update({
-          status: "finished",
-          result: "white",
-          end_reason: "timeout",
-          black_time_remaining: 0,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", gameId);
-      
-      if (updateError) {
-        logger.error("Failed to update game after black timeout:", updateError);
-      }
-      
-      logger.info(`Black flagged in game ${gameId}`);
-      return "black";
+    const flaggedColor = getFlaggedColor(game);
+    if (!flaggedColor) {
+      return null;
     }
-    
-    return null;
+
+    return (await flagGame(supabase, game, flaggedColor)) ? flaggedColor : null;
   } catch (err) {
     logger.error(`Exception checking time violations:`, err);
     return null;
   }
 }
 
+/**
+ * Sweep every active game with a running clock and end the ones that hit zero.
+ * Runs on a schedule so a player who closes the tab still loses on time.
+ */
+export async function sweepTimeViolations(
+  supabase: TypedSupabaseClient,
+): Promise<{ checked: number; flagged: string[] }> {
+  const { data: games, error } = await supabase
+    .from("games")
+    .select("*")
+    .eq("status", "active")
+    .or("white_turn_start_time.not.is.null,black_turn_start_time.not.is.null");
+
+  if (error) {
+    logger.error("Failed to fetch running games for flag sweep:", error);
+    throw error;
+  }
+
+  const nowMs = Date.now();
+  const flagged: string[] = [];
+
+  for (const game of games || []) {
+    const flaggedColor = getFlaggedColor(game, nowMs);
+    if (flaggedColor && await flagGame(supabase, game, flaggedColor)) {
+      flagged.push(game.id);
+    }
+  }
+
+  logger.info(`Flag sweep checked ${games?.length || 0} games, flagged ${flagged.length}`);
+  return { checked: games?.length || 0, flagged };
+}
+
 /**
  * Get current clock state for a game
  */
@@ -8,8 +8,9 @@ import type { User } from "https://esm.sh/@supabase/supabase-js@2.39.3";
 import { validateWithZod, Schemas } from "./validation-utils.ts";
 import { EventType, recordEvent } from "./event-utils.ts";
 import type { Json } from "./database-types.ts";
-import { INITIAL_FEN } from "./constants.ts";
-import { getDefaultTimeControl } from "./time-control-utils.ts";
+import { getDefaultTimeControl, getPresetTimeControl } from "./time-control-utils.ts";
+import { startingFenFor, startingGameFields } from "./start-position.ts";
+import { entryPool, findPoolPair } from "./matchmaking-pools.ts";
 
 const logger = createLogger("DB_TRIGGER");
 
@@ -68,7 +69,7 @@ async function notifyGameCreation(
       "system",
     );
 
-    // No ad-hoc channel fan-out; unified broadcast is handled in game-operations.
+    // No ad-hoc channel fan-out; game updates go out via game-broadcast.ts.
 
     logger.info(
       `Successfully sent game creation notifications for game ${gameId}`,
@@ -95,8 +96,7 @@ export async function createGameFromMatchedPlayers(
     )
       .select("player_id, joined_at, preferences")
       .eq("status", "matched")
-      .order("joined_at", { ascending: true })
-      .limit(2);
+      .order("joined_at", { ascending: true });
 
     logOperation("fetch matched players", matchError);
     if (matchError) {
@@ -104,10 +104,12 @@ export async function createGameFromMatchedPlayers(
       return errorResponse("Database error fetching matched players", 500);
     }
 
-    // We need exactly 2 matched players to create a game
-    if (!matchedPlayers || matchedPlayers.length < 2) {
+    // Players are only paired within their pool (start position and time
+    // control), the same way the matchmaking function pairs them
+    const pair = findPoolPair(matchedPlayers ?? []);
+    if (!pair) {
       logger.info(
-        `Not enough matched players (found ${matchedPlayers?.length || 0})`,
+        `No two matched players share a pool (found ${matchedPlayers?.length || 0})`,
       );
       return successResponse(
         {
@@ -119,18 +121,19 @@ export async function createGameFromMatchedPlayers(
     }
 
     // Get player IDs and randomize colors
-    const player1Id = matchedPlayers[0].player_id;
-    const player2Id = matchedPlayers[1].player_id;
+    const player1Id = pair[0].player_id;
+    const player2Id = pair[1].player_id;
+    const pool = entryPool(pair[0]);
     const isPlayer1White = Math.random() >= 0.5;
     const whiteId = isPlayer1White ? player1Id : player2Id;
     const blackId = isPlayer1White ? player2Id : player1Id;
 
     logger.info(
-      `Creating game: White=${whiteId}, Black=${blackId} with default time control`,
+      `Creating game: White=${whiteId}, Black=${blackId} in pool ${pool.startPosition}:${pool.timeControl ?? "default"}`,
     );
 
-// Get time control from database (single source of truth)
-  const timeControl = await getDefaultTimeControl(supabase);
+    // The pool's preset, or the default time control from the database
+    const timeControl = await getPresetTimeControl(supabase, pool.timeControl);
 
 // Create the game directly in the database
     const { data: game, error: gameError } = await getTable(supabase, "games")
@@ -138,16 +141,17 @@ export async function createGameFromMatchedPlayers(
         white_player_id: whiteId,
         black_player_id: blackId,
         status: "active",
-        current_fen: INITIAL_FEN,
+        ...startingGameFields(startingFenFor(pool.startPosition)),
         pgn: "",
-        turn: "white",
-        banning_player: "black", // Black bans before White's first move
         time_control: {
           initial_time: timeControl.initialTime,
           increment: timeControl.increment,
+          ...(timeControl.banTimeLimit && { ban_time_limit: timeControl.banTimeLimit }),
         },
         white_time_remaining: timeControl.initialTime,
         black_time_remaining: timeControl.initialTime,
+        // Queue games are rated, as in the matchmaking function
+        is_rated: true,
       })
       .select("*")
       .single();
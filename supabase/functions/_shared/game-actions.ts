@@ -0,0 +1,442 @@
+/// <reference lib="deno.ns" />
+/**
+ * The game action pipeline
+ * Every move, ban, resignation, draw offer and abort - from the game-action function
+ * or the game-operations routes - goes through processGameAction, so there is
+ * one set of rules for validation, concurrency, clocks, game end, PGN and the
+ * realtime broadcast.
+ */
+
+import { BanChess } from "https://esm.sh/ban-chess.ts@1.1.1";
+import type { User } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { corsHeaders } from "./auth-utils.ts";
+import { createLogger } from "./logger.ts";
+import type { TypedSupabaseClient } from "./db-utils.ts";
+import type { Json, Tables } from "./database-types.ts";
+import { validateGameAction } from "./validation.ts";
+import { computeActionClock, computeStoppedClock, flagGame, getFlaggedColor } from "./clock-handlers.ts";
+import { staleActionResponse, versionConflictResponse } from "./version-utils.ts";
+import { findRecordedActionResponse, isValidActionId } from "./idempotency.ts";
+import { getGameOutcome, type GameOutcome } from "./game-end.ts";
+import { appendPgnAction, buildPgn, parsePgn } from "./pgn.ts";
+import { broadcastGameUpdate, gameUpdateFromRow } from "./game-broadcast.ts";
+import { abortGame, isAbortable } from "./abort-handlers.ts";
+
+const logger = createLogger("GAME_ACTIONS");
+
+export interface GameAction {
+  move?: {
+    from: string;
+    to: string;
+    promotion?: string;
+  };
+  ban?: {
+    from: string;
+    to: string;
+  };
+  resign?: boolean;
+  drawOffer?: boolean;
+  drawAccept?: boolean;
+  drawDecline?: boolean;
+  abort?: boolean;
+}
+
+export interface GameActionRequest {
+  gameId: string;
+  action: GameAction;
+  // games.version the client saw when it made the action
+  expectedVersion?: number;
+  // Client-generated ID; resubmitting the same ID returns the original result
+  actionId?: string;
+}
+
+export type GameWithPlayers = Tables<"games"> & {
+  white_player?: { username: string };
+  black_player?: { username: string };
+};
+
+type Color = "white" | "black";
+
+type BoardAction =
+  | { type: "move"; from: string; to: string; promotion?: "q" | "r" | "b" | "n" }
+  | { type: "ban"; from: string; to: string };
+
+function jsonResponse(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Loads the game, then validates and applies one action for `user`
+ */
+export async function processGameAction(
+  supabase: TypedSupabaseClient,
+  user: User,
+  request: GameActionRequest,
+): Promise<Response> {
+  const { gameId, action, expectedVersion, actionId } = request;
+
+  if (!gameId || !action) {
+    return jsonResponse({ error: "Missing gameId or action" }, 400);
+  }
+
+  if (actionId !== undefined && !isValidActionId(actionId)) {
+    return jsonResponse({ error: "Invalid actionId" }, 400);
+  }
+
+  const { data: game, error: gameError } = await supabase
+    .from("games")
+    .select("*, white_player:profiles!games_white_player_id_fkey(username), black_player:profiles!games_black_player_id_fkey(username)")
+    .eq("id", gameId)
+    .single();
+
+  if (gameError || !game) {
+    return jsonResponse({ error: "Game not found", details: gameError?.message }, 404);
+  }
+
+  // A retry of an action we already applied - hand back what we returned
+  // the first time instead of validating it against the newer position
+  if (actionId) {
+    const recorded = await findRecordedActionResponse(supabase, gameId, user.id, actionId);
+    if (recorded) return recorded;
+  }
+
+  const validation = validateGameAction(game, user, action);
+  if (!validation.valid) {
+    return jsonResponse({ error: validation.error }, 400);
+  }
+
+  if (typeof expectedVersion === "number" && expectedVersion !== game.version) {
+    return versionConflictResponse(game, expectedVersion);
+  }
+
+  // A player whose clock ran out has lost, even if the flag sweeper hasn't
+  // got to the game yet - no move, ban or draw is taken from them. The
+  // client resyncs to the finished game from the 409.
+  const flaggedColor = game.status === "active" ? getFlaggedColor(game) : null;
+  if (flaggedColor) {
+    await flagGame(supabase, game, flaggedColor);
+    return staleActionResponse(supabase, game.id, game.version);
+  }
+
+  if (action.move) {
+    return applyBoardAction(supabase, user, game as GameWithPlayers, {
+      type: "move",
+      from: action.move.from,
+      to: action.move.to,
+      ...(action.move.promotion && { promotion: action.move.promotion as "q" | "r" | "b" | "n" }),
+    }, actionId);
+  }
+
+  if (action.ban) {
+    return applyBoardAction(supabase, user, game as GameWithPlayers, {
+      type: "ban",
+      from: action.ban.from,
+      to: action.ban.to,
+    }, actionId);
+  }
+
+  // Everything below ends the game or makes an offer, which only make sense mid-game
+  if (game.status !== "active") {
+    return jsonResponse({ error: "Game is not active" }, 400);
+  }
+
+  const color = validation.playerColor!;
+  const opponent: Color = color === "white" ? "black" : "white";
+
+  if (action.abort) {
+    if (!isAbortable(game)) {
+      return jsonResponse({ error: "Game can no longer be aborted" }, 400);
+    }
+    if (!await abortGame(supabase, game)) {
+      return staleActionResponse(supabase, game.id, game.version);
+    }
+    return jsonResponse({ success: true, version: game.version + 1, gameOver: true, end_reason: "aborted" }, 200);
+  }
+
+  if (action.resign) {
+    return endGame(supabase, game as GameWithPlayers, color, { winner: opponent, endReason: "resignation" });
+  }
+
+  if (action.drawAccept || (action.drawOffer && game.draw_offered_by === opponent)) {
+    // Offering a draw the opponent has already offered agrees to it
+    if (game.draw_offered_by !== opponent) {
+      return jsonResponse({ error: "No draw offer to accept" }, 400);
+    }
+    return endGame(supabase, game as GameWithPlayers, color, { winner: "draw", endReason: "draw_agreement" });
+  }
+
+  if (action.drawOffer) {
+    if (game.draw_offered_by === color) {
+      return jsonResponse({ success: true, version: game.version, draw_offered_by: color }, 200);
+    }
+    return setDrawOffer(supabase, game as GameWithPlayers, color, null, color);
+  }
+
+  if (action.drawDecline) {
+    if (game.draw_offered_by !== opponent) {
+      return jsonResponse({ error: "No draw offer to decline" }, 400);
+    }
+    return setDrawOffer(supabase, game as GameWithPlayers, color, opponent, null);
+  }
+
+  return jsonResponse({ error: "Invalid action type" }, 400);
+}
+
+/**
+ * Plays a move or ban on the stored position and commits the result
+ */
+async function applyBoardAction(
+  supabase: TypedSupabaseClient,
+  user: User,
+  game: GameWithPlayers,
+  action: BoardAction,
+  actionId?: string,
+): Promise<Response> {
+  const engine = new BanChess(game.current_fen || undefined);
+  const actingColor = engine.turn;
+  const fenBefore = engine.fen();
+
+  const played = action.type === "move"
+    ? engine.play({ move: { from: action.from, to: action.to, ...(action.promotion && { promotion: action.promotion }) } })
+    : engine.play({ ban: { from: action.from, to: action.to } });
+
+  // play() reports illegal actions instead of throwing
+  if (!played.success) {
+    return jsonResponse({ error: `Invalid action: ${played.error ?? "illegal"}` }, 400);
+  }
+
+  let previousPositions: string[] = [];
+  if (action.type === "move") {
+    // Positions after earlier moves, for threefold repetition
+    const { data: previousMoves } = await supabase
+      .from("game_moves")
+      .select("fen_after")
+      .eq("game_id", game.id)
+      .eq("action_type", "move")
+      .not("fen_after", "is", null);
+    previousPositions = (previousMoves ?? []).map((m) => m.fen_after as string);
+  }
+
+  const outcome = getGameOutcome(engine, action.type, previousPositions);
+  // Moving instead of answering a draw offer declines it
+  const drawOfferedBy = action.type === "move" && game.draw_offered_by && game.draw_offered_by !== actingColor
+    ? null
+    : game.draw_offered_by;
+  const gameOver = outcome !== null;
+  const newFen = engine.fen();
+  const nextAction = engine.nextActionType();
+  const newTurn = engine.turn;
+  const clock = computeActionClock(game.id, game, actingColor, gameOver ? null : newTurn);
+
+  const { headers: pgnHeaders, movetext } = parsePgn(game.pgn);
+  const pgnAction = action.type === "move"
+    ? { type: "move" as const, san: played.san ?? `${action.from}${action.to}` }
+    : { type: "ban" as const, from: action.from, to: action.to };
+  const pgn = buildPgn(
+    appendPgnAction(movetext, pgnAction, actingColor, fenBefore),
+    {
+      whiteName: game.white_player?.username,
+      blackName: game.black_player?.username,
+      createdAt: game.created_at,
+      timeControl: game.time_control,
+      winner: outcome?.winner,
+      endReason: outcome?.endReason,
+      startingFen: game.starting_fen,
+    },
+    pgnHeaders,
+  );
+
+  const result = {
+    success: true,
+    version: game.version + 1,
+    current_fen: newFen,
+    ban_chess_state: nextAction === "ban" ? "waiting_for_ban" : "waiting_for_move",
+    nextActionType: nextAction,
+    turn: newTurn,
+    gameOver,
+    end_reason: outcome?.endReason ?? null,
+    clock: clock.clockUpdate,
+  };
+
+  const { from, to } = action;
+  const actionData = action.type === "move" && action.promotion ? { from, to, promotion: action.promotion } : { from, to };
+
+  // The action is recorded and the game updated in one transaction, so the
+  // action that ends the game is stored too (see record_game_action)
+  const now = new Date().toISOString();
+  const { data: updated, error: updateError } = await supabase.rpc("record_game_action", {
+    p_game_id: game.id,
+    p_version: game.version,
+    p_game: {
+      current_fen: newFen,
+      ban_chess_state: nextAction === "ban" ? "waiting_for_ban" : "waiting_for_move",
+      turn: newTurn,
+      banning_player: nextAction === "ban" ? newTurn : null,
+      status: gameOver ? "completed" : "active",
+      winner: outcome?.winner ?? null,
+      end_reason: outcome?.endReason ?? null,
+      draw_offered_by: gameOver ? null : drawOfferedBy,
+      // Any new action supersedes an open takeback request
+      takeback_requested_by: null,
+      pgn,
+      updated_at: now,
+      last_move_at: now,
+      [`${actingColor}_has_acted`]: true,
+      ...clock.fields,
+    },
+    // The engine is rebuilt from FEN, so its history is only this action;
+    // the function numbers it after the recorded ones
+    p_action: {
+      player_id: user.id,
+      action_type: action.type,
+      action_data: actionData,
+      fen_after: newFen,
+      action_id: actionId ?? null,
+      result,
+    } as unknown as Json,
+  });
+
+  if (updateError) {
+    logger.error(`Failed to record ${action.type} for game ${game.id}:`, updateError);
+    return jsonResponse({ error: "Failed to update game" }, 500);
+  }
+
+  if (!updated || updated.length === 0) {
+    // A retry that raced its original through the version check
+    if (actionId) {
+      const recorded = await findRecordedActionResponse(supabase, game.id, user.id, actionId);
+      if (recorded) return recorded;
+    }
+    // Another action (or the flag sweeper) got there first
+    return staleActionResponse(supabase, game.id, game.version);
+  }
+
+  await broadcastGameUpdate(supabase, gameUpdateFromRow(updated[0], {
+    white_player: game.white_player,
+    black_player: game.black_player,
+    lastAction: {
+      type: action.type,
+      playerId: user.id,
+      playerColor: actingColor,
+      ...actionData,
+      timestamp: now,
+    },
+    legalMoves: !gameOver ? engine.legalMoves() : [],
+    nextActionType: nextAction,
+    clock: clock.clockUpdate,
+  }));
+
+  return jsonResponse(result, 200);
+}
+
+/**
+ * Finishes the game off the board - a resignation or an agreed draw
+ */
+async function endGame(
+  supabase: TypedSupabaseClient,
+  game: GameWithPlayers,
+  color: Color,
+  outcome: GameOutcome,
+): Promise<Response> {
+  const clock = computeStoppedClock(game.id, game, color);
+  const { headers: pgnHeaders, movetext } = parsePgn(game.pgn);
+  const pgn = buildPgn(
+    movetext,
+    {
+      whiteName: game.white_player?.username,
+      blackName: game.black_player?.username,
+      createdAt: game.created_at,
+      timeControl: game.time_control,
+      winner: outcome.winner,
+      endReason: outcome.endReason,
+      startingFen: game.starting_fen,
+    },
+    pgnHeaders,
+  );
+
+  const now = new Date().toISOString();
+  const { data: updated, error: updateError } = await supabase
+    .from("games")
+    .update({
+      status: "completed",
+      winner: outcome.winner,
+      end_reason: outcome.endReason,
+      draw_offered_by: null,
+      takeback_requested_by: null,
+      pgn,
+      updated_at: now,
+      ...clock.fields,
+      version: game.version + 1,
+    })
+    .eq("id", game.id)
+    .eq("version", game.version)
+    .eq("status", "active")
+    .select("*");
+
+  if (updateError) {
+    logger.error(`Failed to end game ${game.id}:`, updateError);
+    return jsonResponse({ error: "Failed to update game" }, 500);
+  }
+
+  if (!updated || updated.length === 0) {
+    return staleActionResponse(supabase, game.id, game.version);
+  }
+
+  await broadcastGameUpdate(supabase, gameUpdateFromRow(updated[0], {
+    white_player: game.white_player,
+    black_player: game.black_player,
+    clock: clock.clockUpdate,
+  }));
+
+  return jsonResponse({
+    success: true,
+    version: game.version + 1,
+    gameOver: true,
+    winner: outcome.winner,
+    end_reason: outcome.endReason,
+    clock: clock.clockUpdate,
+  }, 200);
+}
+
+/**
+ * Opens, withdraws or declines a draw offer. The update only applies while
+ * the offer is still `from`, so it can't race an accept or another answer.
+ * Offers don't change the position, so the game version stays the same.
+ */
+async function setDrawOffer(
+  supabase: TypedSupabaseClient,
+  game: GameWithPlayers,
+  color: Color,
+  from: Color | null,
+  to: Color | null,
+): Promise<Response> {
+  let query = supabase
+    .from("games")
+    .update({ draw_offered_by: to, updated_at: new Date().toISOString() })
+    .eq("id", game.id)
+    .eq("status", "active");
+  query = from ? query.eq("draw_offered_by", from) : query.is("draw_offered_by", null);
+
+  const { data: updated, error: updateError } = await query.select("*");
+
+  if (updateError) {
+    logger.error(`Failed to update draw offer for game ${game.id}:`, updateError);
+    return jsonResponse({ error: "Failed to update game" }, 500);
+  }
+
+  if (!updated || updated.length === 0) {
+    return staleActionResponse(supabase, game.id, game.version);
+  }
+
+  logger.info(`${color} ${to ? "offered a draw" : "declined the draw offer"} in game ${game.id}`);
+
+  await broadcastGameUpdate(supabase, gameUpdateFromRow(updated[0], {
+    white_player: game.white_player,
+    black_player: game.black_player,
+  }));
+
+  return jsonResponse({ success: true, version: game.version, draw_offered_by: to }, 200);
+}
@@ -0,0 +1,127 @@
+/// <reference lib="deno.ns" />
+/**
+ * Realtime game updates
+ * Every change to a game is broadcast as one `game_update` event on
+ * `game:${gameId}` with the payload below, whichever function made it.
+ * The client side of this contract is LiveGamePayload in src/hooks/useGameSync.ts.
+ */
+
+import { createLogger } from "./logger.ts";
+import type { TypedSupabaseClient } from "./db-utils.ts";
+import type { Tables } from "./database-types.ts";
+import type { ClockUpdate } from "./clock-handlers.ts";
+
+const logger = createLogger("GAME_BROADCAST");
+
+export const GAME_UPDATE_EVENT = "game_update";
+
+export function gameChannelName(gameId: string): string {
+  return `game:${gameId}`;
+}
+
+export interface GameUpdatePayload {
+  id: string;
+  version: number;
+  current_fen: string | null;
+  ban_chess_state: string | null;
+  turn: string;
+  banning_player: string | null;
+  status: string;
+  winner: string | null;
+  end_reason: string | null;
+  // Set on a completed rated game
+  elo_change_white: number | null;
+  elo_change_black: number | null;
+  gameOver: boolean;
+  result: string | null;
+  white_player_id: string;
+  black_player_id: string;
+  white_player?: { username: string };
+  black_player?: { username: string };
+  white_time_remaining: number | null;
+  black_time_remaining: number | null;
+  white_turn_start_time: number | null;
+  black_turn_start_time: number | null;
+  draw_offered_by: string | null;
+  takeback_requested_by: string | null;
+  // Abortable until both are set
+  white_has_acted: boolean;
+  black_has_acted: boolean;
+  rematch_offered_by: string | null;
+  parent_game_id: string | null;
+  // Set once a rematch of this game has been created
+  rematch_game_id?: string;
+  // Set when the update was caused by a move or ban
+  lastAction?: {
+    type: "move" | "ban";
+    playerId: string;
+    playerColor: "white" | "black";
+    from: string;
+    to: string;
+    promotion?: string;
+    timestamp: string;
+  };
+  legalMoves?: unknown[];
+  nextActionType?: "move" | "ban";
+  clock?: ClockUpdate;
+}
+
+/**
+ * Builds the payload for a games row; `extras` adds the action-specific fields
+ */
+export function gameUpdateFromRow(
+  game: Tables<"games">,
+  extras: Partial<GameUpdatePayload> = {},
+): GameUpdatePayload {
+  return {
+    id: game.id,
+    version: game.version,
+    current_fen: game.current_fen,
+    ban_chess_state: game.ban_chess_state,
+    turn: game.turn,
+    banning_player: game.banning_player,
+    status: game.status,
+    winner: game.winner,
+    end_reason: game.end_reason,
+    elo_change_white: game.elo_change_white,
+    elo_change_black: game.elo_change_black,
+    gameOver: game.status !== "active",
+    result: game.status !== "active" ? game.winner : null,
+    white_player_id: game.white_player_id,
+    black_player_id: game.black_player_id,
+    white_time_remaining: game.white_time_remaining,
+    black_time_remaining: game.black_time_remaining,
+    white_turn_start_time: game.white_turn_start_time,
+    black_turn_start_time: game.black_turn_start_time,
+    draw_offered_by: game.draw_offered_by,
+    takeback_requested_by: game.takeback_requested_by,
+    white_has_acted: game.white_has_acted,
+    black_has_acted: game.black_has_acted,
+    rematch_offered_by: game.rematch_offered_by,
+    parent_game_id: game.parent_game_id,
+    ...extras,
+  };
+}
+
+/**
+ * Sends a game update to everyone watching the game. Failures are logged,
+ * not thrown: the row is already committed and clients resync on reload.
+ */
+export async function broadcastGameUpdate(
+  supabase: TypedSupabaseClient,
+  payload: GameUpdatePayload,
+): Promise<void> {
+  const channel = supabase.channel(gameChannelName(payload.id));
+  try {
+    await channel.subscribe();
+    await channel.send({
+      type: "broadcast",
+      event: GAME_UPDATE_EVENT,
+      payload,
+    });
+  } catch (error) {
+    logger.warn(`Failed to broadcast update for game ${payload.id}:`, error);
+  } finally {
+    await supabase.removeChannel(channel);
+  }
+}
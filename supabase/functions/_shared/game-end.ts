@@ -0,0 +1,108 @@
+/// <reference lib="deno.ns" />
+import { BanChess } from "https://esm.sh/ban-chess.ts@1.1.1";
+
+// Mirrors GameEndReason in src/types/game.ts
+export type GameEndReason =
+  | "checkmate"
+  | "resignation"
+  | "draw_agreement"
+  | "stalemate"
+  | "insufficient_material"
+  | "threefold_repetition"
+  | "fifty_move_rule"
+  | "timeout"
+  | "aborted";
+
+export interface GameOutcome {
+  winner: "white" | "black" | "draw";
+  endReason: GameEndReason;
+}
+
+/**
+ * The part of a FEN that identifies a position for repetition purposes:
+ * placement, side to move, castling rights and en passant square.
+ */
+export function positionKey(fen: string): string {
+  return fen.split(" ").slice(0, 4).join(" ");
+}
+
+function halfmoveClock(fen: string): number {
+  const value = parseInt(fen.split(" ")[4] ?? "0", 10);
+  return Number.isNaN(value) ? 0 : value;
+}
+
+/**
+ * Neither side can possibly mate: bare kings, a single minor piece,
+ * or bishops that all stand on one square color.
+ */
+export function hasInsufficientMaterial(fen: string): boolean {
+  const placement = fen.split(" ")[0];
+  const minors: { piece: string; squareColor: number }[] = [];
+
+  const ranks = placement.split("/");
+  for (let rank = 0; rank < ranks.length; rank++) {
+    let file = 0;
+    for (const char of ranks[rank]) {
+      if (/\d/.test(char)) {
+        file += parseInt(char, 10);
+        continue;
+      }
+      const piece = char.toLowerCase();
+      if (piece === "p" || piece === "r" || piece === "q") return false;
+      if (piece === "b" || piece === "n") {
+        minors.push({ piece, squareColor: (rank + file) % 2 });
+      }
+      file++;
+    }
+  }
+
+  if (minors.length <= 1) return true;
+
+  // Any number of bishops confined to one square color can't mate
+  return minors.every((m) => m.piece === "b") &&
+    minors.every((m) => m.squareColor === minors[0].squareColor);
+}
+
+/**
+ * Works out whether the game ended with the action just played.
+ * `previousPositions` are the FENs reached after each earlier move of the game;
+ * repetitions are only counted after moves, where the position is complete.
+ */
+export function getGameOutcome(
+  engine: BanChess,
+  lastActionType: "move" | "ban",
+  previousPositions: string[] = [],
+): GameOutcome | null {
+  if (engine.inCheckmate()) {
+    return {
+      winner: engine.turn === "white" ? "black" : "white",
+      endReason: "checkmate",
+    };
+  }
+
+  if (engine.inStalemate()) {
+    return { winner: "draw", endReason: "stalemate" };
+  }
+
+  // Bans don't change the position, so the draw rules only need
+  // checking after a move
+  if (lastActionType !== "move") return null;
+
+  const fen = engine.fen();
+
+  if (hasInsufficientMaterial(fen)) {
+    return { winner: "draw", endReason: "insufficient_material" };
+  }
+
+  const key = positionKey(fen);
+  const occurrences = previousPositions.filter((p) => positionKey(p) === key).length + 1;
+  if (occurrences >= 3) {
+    return { winner: "draw", endReason: "threefold_repetition" };
+  }
+
+  if (halfmoveClock(fen) >= 100) {
+    return { winner: "draw", endReason: "fifty_move_rule" };
+  }
+
+  return null;
+}
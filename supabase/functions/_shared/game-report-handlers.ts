@@ -0,0 +1,191 @@
+/// <reference lib="deno.ns" />
+/**
+ * Post-game reports
+ * Reports are computed in the browser (src/utils/gameReport.ts) and stored
+ * here so later visits don't recompute them. Only a player of the finished
+ * game may store its report, and only in the current format. Scoring the
+ * whole game is too slow for an edge function, so the evaluations are taken
+ * as sent, but every entry is checked against the recorded actions: it has
+ * to name an action that was played, by the side that played it, and the
+ * ban-mates and single escapes it lists have to be real.
+ */
+
+import { BanChess } from "https://esm.sh/ban-chess.ts@1.1.1";
+import type { User } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createLogger } from "./logger.ts";
+import { errorResponse, successResponse } from "./response-utils.ts";
+import { getTable, logOperation } from "./db-utils.ts";
+import type { TypedSupabaseClient } from "./db-utils.ts";
+import type { Json, Tables } from "./database-types.ts";
+
+const logger = createLogger("GAME_REPORT");
+
+// Format of the reports built by src/utils/gameReport.ts (GAME_REPORT_VERSION there)
+export const GAME_REPORT_VERSION = 1;
+
+// A report lists a handful of entries per section; anything bigger isn't one
+const MAX_REPORT_BYTES = 20_000;
+
+type Squares = { from: string; to: string };
+
+interface ReportEntry {
+  ply: number;
+  color: string;
+  played?: Squares;
+  banMate?: Squares;
+  escape?: Squares;
+}
+
+interface SubmittedReport {
+  version: number;
+  moveSwings: ReportEntry[];
+  banSwings: ReportEntry[];
+  missedBanMates: ReportEntry[];
+  singleEscapes: ReportEntry[];
+}
+
+const REPORT_SECTIONS = ["moveSwings", "banSwings", "missedBanMates", "singleEscapes"] as const;
+
+function isReport(value: unknown): value is SubmittedReport {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return false;
+  const report = value as Record<string, unknown>;
+  return Number.isInteger(report.version) &&
+    REPORT_SECTIONS.every((section) =>
+      Array.isArray(report[section]) &&
+      (report[section] as unknown[]).every((entry) =>
+        !!entry && typeof entry === "object" && Number.isInteger((entry as ReportEntry).ply)
+      )
+    );
+}
+
+const sameSquares = (a: Squares | undefined, b: Squares) => !!a && a.from === b.from && a.to === b.to;
+
+/**
+ * Checks the report's entries against the game's recorded actions.
+ * Returns what is wrong, or null if every entry matches the game.
+ */
+function checkReportAgainstGame(
+  report: SubmittedReport,
+  moves: Pick<Tables<"game_moves">, "action_type" | "action_data">[],
+  startingFen: string | null,
+): string | null {
+  // Position before each ply, replayed once
+  const engine = new BanChess(startingFen || undefined);
+  const positions: { fen: string; turn: string }[] = [];
+  for (const row of moves) {
+    positions.push({ fen: engine.fen(), turn: engine.turn });
+    const data = row.action_data as { from: string; to: string; promotion?: "q" | "r" | "b" | "n" };
+    const result = row.action_type === "ban"
+      ? engine.play({ ban: { from: data.from, to: data.to } })
+      : engine.play({ move: data });
+    if (!result.success) return "Recorded moves don't replay";
+  }
+  positions.push({ fen: engine.fen(), turn: engine.turn });
+
+  const playedAt = (entry: ReportEntry, type: string) => {
+    const row = moves[entry.ply];
+    return !!row && row.action_type === type && positions[entry.ply].turn === entry.color &&
+      sameSquares(entry.played, row.action_data as Squares);
+  };
+
+  if (!report.moveSwings.every((entry) => playedAt(entry, "move"))) {
+    return "Move entry doesn't match the game";
+  }
+  if (!report.banSwings.every((entry) => playedAt(entry, "ban"))) {
+    return "Ban entry doesn't match the game";
+  }
+
+  for (const entry of report.missedBanMates) {
+    if (!playedAt(entry, "ban") || !entry.banMate) return "Missed ban-mate doesn't match the game";
+    const position = new BanChess(positions[entry.ply].fen);
+    if (!position.play({ ban: entry.banMate }).success || !position.gameOver() || !position.inCheck()) {
+      return "Missed ban-mate isn't one";
+    }
+  }
+
+  for (const entry of report.singleEscapes) {
+    const position = positions[entry.ply];
+    if (!position || position.turn !== entry.color || !entry.escape) return "Single escape doesn't match the game";
+    const escapes = new BanChess(position.fen).legalMoves();
+    if (escapes.length !== 1 || !sameSquares(entry.escape, escapes[0])) {
+      return "Single escape isn't one";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Stores the report for a finished game
+ */
+export async function saveGameReport(
+  user: User,
+  params: Record<string, unknown>,
+  supabase: TypedSupabaseClient,
+): Promise<Response> {
+  const { gameId, report } = params;
+  if (typeof gameId !== "string" || !gameId) {
+    return errorResponse("Missing gameId", 400);
+  }
+  if (!isReport(report) || JSON.stringify(report).length > MAX_REPORT_BYTES) {
+    return errorResponse("Invalid report", 400);
+  }
+  if (report.version !== GAME_REPORT_VERSION) {
+    return errorResponse(`Reports must be version ${GAME_REPORT_VERSION}`, 400);
+  }
+
+  const { data: game, error } = await getTable(supabase, "games")
+    .select("id, status, white_player_id, black_player_id, starting_fen")
+    .eq("id", gameId)
+    .maybeSingle();
+
+  logOperation("get game for report", error);
+  if (error || !game) {
+    return errorResponse("Game not found", 404);
+  }
+  if (user.id !== game.white_player_id && user.id !== game.black_player_id) {
+    return errorResponse("Not a player in this game", 403);
+  }
+  if (game.status === "active") {
+    return errorResponse("Game is still in progress", 400);
+  }
+
+  const { data: moves, error: movesError } = await getTable(supabase, "game_moves")
+    .select("action_type, action_data")
+    .eq("game_id", gameId)
+    .order("ply", { ascending: true });
+
+  logOperation("get moves for report", movesError);
+  if (movesError || !moves) {
+    return errorResponse("Failed to load moves", 500);
+  }
+
+  const mismatch = checkReportAgainstGame(report, moves, game.starting_fen);
+  if (mismatch) {
+    logger.warn(`Rejected report for game ${gameId}: ${mismatch}`);
+    return errorResponse(mismatch, 400);
+  }
+
+  const { data: existing } = await getTable(supabase, "game_reports")
+    .select("*")
+    .eq("game_id", gameId)
+    .maybeSingle();
+
+  // Only reports in an older format are replaced
+  if (existing && existing.version >= report.version) {
+    return successResponse({ report: existing }, "Report already stored");
+  }
+
+  const { data: stored, error: saveError } = await getTable(supabase, "game_reports")
+    .upsert({ game_id: gameId, version: report.version, report: report as unknown as Json }, { onConflict: "game_id" })
+    .select("*")
+    .single();
+
+  logOperation("store game report", saveError);
+  if (saveError) {
+    return errorResponse("Failed to store report", 500);
+  }
+
+  logger.info(`Stored report v${report.version} for game ${gameId}`);
+  return successResponse({ report: stored }, "Report stored");
+}
@@ -0,0 +1,55 @@
+/// <reference lib="deno.ns" />
+import { corsHeaders } from "./auth-utils.ts";
+import { createLogger } from "./logger.ts";
+import type { TypedSupabaseClient } from "./db-utils.ts";
+
+const logger = createLogger("IDEMPOTENCY");
+
+const MAX_ACTION_ID_LENGTH = 64;
+
+/**
+ * Action IDs are generated by the client (crypto.randomUUID), so only
+ * accept short opaque strings.
+ */
+export function isValidActionId(actionId: unknown): actionId is string {
+  return typeof actionId === "string" &&
+    actionId.length > 0 &&
+    actionId.length <= MAX_ACTION_ID_LENGTH;
+}
+
+/**
+ * Returns the original response for an action ID that this player already
+ * applied to this game, or null if the action hasn't been seen yet. Only
+ * moves and bans are recorded, so only they can be replayed.
+ */
+export async function findRecordedActionResponse(
+  supabase: TypedSupabaseClient,
+  gameId: string,
+  playerId: string,
+  actionId: string,
+): Promise<Response | null> {
+  const { data: recorded, error } = await supabase
+    .from("game_moves")
+    .select("ply, result")
+    .eq("game_id", gameId)
+    .eq("player_id", playerId)
+    .eq("action_id", actionId)
+    .maybeSingle();
+
+  if (error) {
+    logger.warn(`Failed to look up action ${actionId} on game ${gameId}:`, error);
+    return null;
+  }
+
+  if (!recorded) return null;
+
+  logger.info(`Replaying result of duplicate action ${actionId} on game ${gameId}`);
+  const result = recorded.result && typeof recorded.result === "object" && !Array.isArray(recorded.result)
+    ? recorded.result
+    : { success: true, version: recorded.ply + 1 };
+
+  return new Response(
+    JSON.stringify({ ...result, duplicate: true }),
+    { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  );
+}
@@ -122,6 +122,7 @@ export async function handleCreateMatch(
         time_control: {
           initial_time: timeControl.initialTime,
           increment: timeControl.increment,
+          ...(timeControl.banTimeLimit && { ban_time_limit: timeControl.banTimeLimit }),
         },
         white_time_remaining: timeControl.initialTime,
         black_time_remaining: timeControl.initialTime,
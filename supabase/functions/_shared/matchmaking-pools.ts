@@ -0,0 +1,38 @@
+/// <reference lib="deno.ns" />
+/**
+ * Matchmaking pools
+ * Queued players are only paired with someone who asked for the same start
+ * position and time control preset. Shared by the matchmaking function and
+ * the process-matches cron, so both pair players the same way.
+ */
+
+import type { StartPositionKind } from "./start-position.ts";
+import { isTimeControlPreset } from "./time-control-utils.ts";
+
+/**
+ * Pool a queue entry is waiting in: its start position and time control
+ * preset (entries without a preset play the default time control)
+ */
+export function entryPool(entry: { preferences: unknown }): { startPosition: StartPositionKind; timeControl?: string } {
+  const preferences = entry.preferences as { start_position?: string; time_control?: string } | null;
+  return {
+    startPosition: preferences?.start_position === "chess960" ? "chess960" : "standard",
+    timeControl: isTimeControlPreset(preferences?.time_control) ? preferences.time_control : undefined,
+  };
+}
+
+/**
+ * The two longest-waiting players in the same pool; `entries` must be in
+ * joining order
+ */
+export function findPoolPair<T extends { preferences: unknown }>(entries: T[]): [T, T] | null {
+  const firstInPool = new Map<string, T>();
+  for (const entry of entries) {
+    const { startPosition, timeControl } = entryPool(entry);
+    const pool = `${startPosition}:${timeControl ?? "default"}`;
+    const waiting = firstInPool.get(pool);
+    if (waiting) return [waiting, entry];
+    firstInPool.set(pool, entry);
+  }
+  return null;
+}
@@ -0,0 +1,169 @@
+/// <reference lib="deno.ns" />
+/**
+ * Ban-annotated PGN for stored games
+ * Move text follows BanChess.pgn(): every move is preceded by the ban that
+ * was placed on it, e.g. `1. {banning: e2e4} d4 {banning: e7e5} d5`
+ */
+
+import type { Json } from "./database-types.ts";
+
+export interface PgnGameInfo {
+  whiteName?: string | null;
+  blackName?: string | null;
+  createdAt?: string | null;
+  timeControl?: Json | null;
+  winner?: string | null;
+  endReason?: string | null;
+  // Set for games that didn't start from the standard position
+  startingFen?: string | null;
+}
+
+export type PgnAction =
+  | { type: "ban"; from: string; to: string }
+  | { type: "move"; san: string };
+
+const HEADER_LINE = /^\[(\w+)\s+"(.*)"\]\s*$/;
+const RESULT_TOKEN = /\s*(1-0|0-1|1\/2-1\/2|\*)\s*$/;
+
+const terminationLabels: Record<string, string> = {
+  checkmate: "checkmate",
+  resignation: "resignation",
+  draw_agreement: "draw by agreement",
+  stalemate: "stalemate",
+  insufficient_material: "insufficient material",
+  threefold_repetition: "threefold repetition",
+  fifty_move_rule: "fifty-move rule",
+  timeout: "time forfeit",
+  aborted: "abandoned",
+};
+
+export function pgnResult(winner: string | null | undefined): string {
+  switch (winner) {
+    case "white":
+      return "1-0";
+    case "black":
+      return "0-1";
+    case "draw":
+      return "1/2-1/2";
+    default:
+      return "*";
+  }
+}
+
+/**
+ * PGN TimeControl tag ("600+5") from a time_control column stored in ms
+ */
+function pgnTimeControl(timeControl: Json | null | undefined): string {
+  if (!timeControl || typeof timeControl !== "object" || Array.isArray(timeControl)) {
+    return "-";
+  }
+  const initial = Number(timeControl.initial_time ?? 0);
+  const increment = Number(timeControl.increment ?? 0);
+  if (!initial) return "-";
+  return `${Math.round(initial / 1000)}+${Math.round(increment / 1000)}`;
+}
+
+function pgnDate(createdAt: string | null | undefined): string {
+  const date = createdAt ? new Date(createdAt) : new Date();
+  if (Number.isNaN(date.getTime())) return "????.??.??";
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getUTCFullYear()}.${pad(date.getUTCMonth() + 1)}.${pad(date.getUTCDate())}`;
+}
+
+/**
+ * Splits a stored PGN into its header tags and bare move text (no result token)
+ */
+export function parsePgn(pgn: string | null | undefined): { headers: Record<string, string>; movetext: string } {
+  const headers: Record<string, string> = {};
+  const moveLines: string[] = [];
+
+  for (const line of (pgn ?? "").split("\n")) {
+    const header = line.match(HEADER_LINE);
+    if (header) {
+      headers[header[1]] = header[2].replace(/\\"/g, '"').replace(/\\\\/g, "\\");
+    } else if (line.trim()) {
+      moveLines.push(line.trim());
+    }
+  }
+
+  return { headers, movetext: moveLines.join(" ").replace(RESULT_TOKEN, "").trim() };
+}
+
+/**
+ * Appends one action to the move text.
+ * The engine is rebuilt from FEN for every request, so its pgn() only knows
+ * the last action and always numbers it from 1; the move number comes from
+ * the fullmove field of the FEN the action was played on instead.
+ */
+export function appendPgnAction(
+  movetext: string,
+  action: PgnAction,
+  actingColor: "white" | "black",
+  fenBefore: string,
+): string {
+  const fullmove = parseInt(fenBefore.split(" ")[5] ?? "1", 10) || 1;
+  let token = action.type === "ban" ? `{banning: ${action.from}${action.to}}` : action.san;
+
+  if (action.type === "ban" && actingColor === "black") {
+    // Black's ban opens each full move, ahead of White's reply
+    token = `${fullmove}. ${token}`;
+  } else if (!movetext) {
+    // Games from a position with Black to move open on White's ban, in
+    // Black's half of the move: `12... {banning: e7e5} d5`
+    token = `${fullmove}${actingColor === "white" && action.type === "move" ? "." : "..."} ${token}`;
+  }
+
+  return movetext ? `${movetext} ${token}` : token;
+}
+
+/**
+ * Full PGN: the Seven Tag Roster, then Variant, TimeControl, SetUp/FEN for
+ * non-standard starts, and Termination.
+ * Any other tags already present in `existing` are kept.
+ */
+export function buildPgn(
+  movetext: string,
+  info: PgnGameInfo,
+  existing: Record<string, string> = {},
+): string {
+  const result = pgnResult(info.winner);
+  const headers: Record<string, string> = {
+    Event: existing.Event ?? "Ban Chess",
+    Site: existing.Site ?? "-",
+    Date: existing.Date ?? pgnDate(info.createdAt),
+    Round: existing.Round ?? "-",
+    White: info.whiteName ?? existing.White ?? "?",
+    Black: info.blackName ?? existing.Black ?? "?",
+    Result: result,
+    Variant: "Ban Chess",
+    TimeControl: info.timeControl !== undefined ? pgnTimeControl(info.timeControl) : existing.TimeControl ?? "-",
+  };
+
+  if (info.startingFen) {
+    headers.SetUp = "1";
+    headers.FEN = info.startingFen;
+  }
+
+  for (const [name, value] of Object.entries(existing)) {
+    if (!(name in headers) && name !== "Termination") headers[name] = value;
+  }
+
+  if (info.endReason) {
+    headers.Termination = terminationLabels[info.endReason] ?? info.endReason;
+  }
+
+  const tags = Object.entries(headers)
+    .map(([name, value]) => `[${name} "${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"]`)
+    .join("\n");
+
+  return `${tags}\n\n${movetext ? `${movetext} ${result}` : result}`;
+}
+
+/**
+ * Rewrites the Result/Termination tags of a stored PGN for a game that ended
+ * without an action (e.g. on time).
+ */
+export function finishPgn(pgn: string | null | undefined, winner: string | null, endReason: string | null): string {
+  const { headers, movetext } = parsePgn(pgn);
+  return buildPgn(movetext, { winner, endReason }, headers);
+}
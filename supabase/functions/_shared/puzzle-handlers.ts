@@ -0,0 +1,343 @@
+/// <reference lib="deno.ns" />
+/**
+ * Ban puzzles
+ * A scheduled job replays completed games from game_moves and keeps the
+ * positions where one ban decides the game: ban-mates (the side in check has
+ * a single escape) and winning bans (one ban costs the opponent far more than
+ * any other and leaves the banner clearly ahead). Players are served unsolved
+ * puzzles near their puzzle_rating; the first attempt at each puzzle moves
+ * both ratings like a rated game between the player and the puzzle.
+ */
+
+import { BanChess } from "https://esm.sh/ban-chess.ts@1.1.1";
+import type { Ban } from "https://esm.sh/ban-chess.ts@1.1.1";
+import type { User } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createLogger } from "./logger.ts";
+import { errorResponse, successResponse } from "./response-utils.ts";
+import { getTable, logOperation } from "./db-utils.ts";
+import type { TypedSupabaseClient } from "./db-utils.ts";
+import type { Tables, TablesInsert } from "./database-types.ts";
+import { analyzeBans, isMateScore } from "./ban-analysis.ts";
+
+const logger = createLogger("PUZZLES");
+
+export type PuzzleKind = "ban_mate" | "winning_ban";
+
+// Centipawns a winning ban must cost the opponent, beat the runner-up ban by,
+// and leave the banner ahead by
+const WINNING_BAN_MARGIN = 300;
+
+// Depth 1 finds the candidates cheaply; depth 2 confirms them
+const CONFIRM_DEPTH = 2;
+
+const INITIAL_PUZZLE_RATING: Record<PuzzleKind, number> = {
+  ban_mate: 1000,
+  winning_ban: 1400,
+};
+
+// Edge functions get little CPU time per request, so a scan stops between games
+const SCAN_TIME_BUDGET_MS = 1500;
+const SCAN_BATCH_SIZE = 20;
+
+// Rating windows tried in turn when picking a puzzle
+const RATING_WINDOWS = [100, 200, 400, Infinity];
+const PUZZLE_CANDIDATES = 20;
+const HISTORY_LIMIT = 20;
+
+const PLAYER_K_FACTOR = 32;
+const PUZZLE_K_FACTOR = 16;
+
+export interface ExtractedPuzzle {
+  ply: number;
+  fen: string;
+  kind: PuzzleKind;
+  solution: Ban;
+}
+
+const sameBan = (a: Ban, b: Ban) => a.from === b.from && a.to === b.to;
+
+/**
+ * The puzzle in a ban-phase position, if there is one
+ */
+function findPuzzle(fen: string): { kind: PuzzleKind; solution: Ban } | null {
+  const quick = analyzeBans(fen, 1);
+  if (!quick) return null;
+  if (quick.banMate) return { kind: "ban_mate", solution: quick.banMate };
+  if (quick.rankings.length < 2 || quick.rankings[0].impact < WINNING_BAN_MARGIN) return null;
+
+  const analysis = analyzeBans(fen, CONFIRM_DEPTH);
+  if (!analysis || analysis.rankings.length < 2) return null;
+
+  const [best, runnerUp] = analysis.rankings;
+  // Scores are White's point of view; the banner is the other side
+  const bannerScore = analysis.bannedSide === "white" ? -best.score : best.score;
+
+  if (best.impact < WINNING_BAN_MARGIN) return null;
+  if (!isMateScore(best.impact) && best.impact - runnerUp.impact < WINNING_BAN_MARGIN) return null;
+  if (isMateScore(runnerUp.impact)) return null;
+  if (bannerScore < WINNING_BAN_MARGIN) return null;
+
+  return { kind: "winning_ban", solution: best.ban };
+}
+
+/**
+ * Replays a game and returns the puzzle positions met before each ban,
+ * or null when the moves don't replay to the game's `currentFen` (an
+ * incomplete record)
+ */
+export function extractPuzzles(
+  moves: Pick<Tables<"game_moves">, "ply" | "action_type" | "action_data">[],
+  startingFen: string | null,
+  currentFen: string | null,
+): ExtractedPuzzle[] | null {
+  const engine = new BanChess(startingFen || undefined);
+  const puzzles: ExtractedPuzzle[] = [];
+
+  for (const [index, row] of moves.entries()) {
+    const data = row.action_data as { from: string; to: string; promotion?: "q" | "r" | "b" | "n" };
+
+    if (row.action_type === "ban") {
+      const fen = engine.fen();
+      const puzzle = findPuzzle(fen);
+      if (puzzle) puzzles.push({ ply: index, fen, ...puzzle });
+    }
+
+    const result = row.action_type === "ban"
+      ? engine.play({ ban: { from: data.from, to: data.to } })
+      : engine.play({ move: data });
+    if (!result.success) {
+      logger.warn(`Stopped replay at ply ${row.ply}:`, result.error);
+      return null;
+    }
+  }
+
+  if (currentFen && engine.fen() !== currentFen) {
+    return null;
+  }
+
+  return puzzles;
+}
+
+/**
+ * Extracts puzzles from completed games that haven't been scanned yet.
+ * Runs on a schedule; each run handles as many games as its time budget allows.
+ */
+export async function scanCompletedGames(
+  supabase: TypedSupabaseClient,
+): Promise<{ scanned: number; found: number }> {
+  const { data: games, error } = await getTable(supabase, "games")
+    .select("id, starting_fen, current_fen")
+    .eq("status", "completed")
+    .is("puzzles_scanned_at", null)
+    .order("updated_at", { ascending: true })
+    .limit(SCAN_BATCH_SIZE);
+
+  if (error) {
+    logger.error("Failed to fetch games to scan for puzzles:", error);
+    throw error;
+  }
+
+  const deadline = Date.now() + SCAN_TIME_BUDGET_MS;
+  let scanned = 0;
+  let found = 0;
+
+  for (const game of games || []) {
+    if (Date.now() > deadline) break;
+
+    const { data: moves, error: movesError } = await getTable(supabase, "game_moves")
+      .select("ply, action_type, action_data")
+      .eq("game_id", game.id)
+      .order("ply", { ascending: true });
+
+    logOperation("fetch moves for puzzle scan", movesError);
+    if (movesError) continue;
+
+    const puzzles = extractPuzzles(moves || [], game.starting_fen, game.current_fen);
+    if (!puzzles) {
+      // Still marked scanned below, so the game isn't picked up again
+      logger.warn(`Recorded moves of game ${game.id} don't reach its current position, skipping`);
+    } else if (puzzles.length > 0) {
+      const rows: TablesInsert<"puzzles">[] = puzzles.map((puzzle) => ({
+        game_id: game.id,
+        ply: puzzle.ply,
+        fen: puzzle.fen,
+        kind: puzzle.kind,
+        solution: { from: puzzle.solution.from, to: puzzle.solution.to },
+        rating: INITIAL_PUZZLE_RATING[puzzle.kind],
+      }));
+
+      // The same position can come up in several games; the first one keeps it
+      const { error: insertError } = await getTable(supabase, "puzzles")
+        .upsert(rows, { onConflict: "fen", ignoreDuplicates: true });
+
+      logOperation("insert puzzles", insertError);
+      if (insertError) continue;
+      found += puzzles.length;
+    }
+
+    const { error: markError } = await getTable(supabase, "games")
+      .update({ puzzles_scanned_at: new Date().toISOString() })
+      .eq("id", game.id);
+
+    logOperation("mark game scanned for puzzles", markError);
+    scanned++;
+  }
+
+  logger.info(`Puzzle scan replayed ${scanned} games, found ${found} puzzles`);
+  return { scanned, found };
+}
+
+async function getPuzzleRating(supabase: TypedSupabaseClient, userId: string): Promise<number> {
+  const { data } = await getTable(supabase, "profiles")
+    .select("puzzle_rating")
+    .eq("id", userId)
+    .maybeSingle();
+  return data?.puzzle_rating ?? 1200;
+}
+
+/**
+ * An unattempted puzzle rated close to the player
+ */
+export async function nextPuzzle(
+  user: User,
+  _params: Record<string, unknown>,
+  supabase: TypedSupabaseClient,
+): Promise<Response> {
+  const rating = await getPuzzleRating(supabase, user.id);
+
+  const { data: attempted, error: attemptedError } = await getTable(supabase, "puzzle_attempts")
+    .select("puzzle_id")
+    .eq("user_id", user.id);
+
+  logOperation("fetch attempted puzzles", attemptedError);
+  if (attemptedError) {
+    return errorResponse("Failed to load puzzle history", 500);
+  }
+  const attemptedIds = [...new Set((attempted || []).map((a) => a.puzzle_id))];
+
+  for (const window of RATING_WINDOWS) {
+    let query = getTable(supabase, "puzzles").select("id, fen, kind, rating");
+    if (Number.isFinite(window)) {
+      query = query.gte("rating", rating - window).lte("rating", rating + window);
+    }
+    if (attemptedIds.length > 0) {
+      query = query.not("id", "in", `(${attemptedIds.join(",")})`);
+    }
+
+    const { data: candidates, error } = await query.limit(PUZZLE_CANDIDATES);
+    logOperation("fetch puzzle candidates", error);
+    if (error) {
+      return errorResponse("Failed to load a puzzle", 500);
+    }
+
+    if (candidates && candidates.length > 0) {
+      const puzzle = candidates[Math.floor(Math.random() * candidates.length)];
+      return successResponse({ puzzle, rating });
+    }
+  }
+
+  return successResponse({ puzzle: null, rating }, "No puzzles left to solve");
+}
+
+/**
+ * Checks a ban against the puzzle's solution and records the attempt
+ */
+export async function submitPuzzleSolution(
+  user: User,
+  params: Record<string, unknown>,
+  supabase: TypedSupabaseClient,
+): Promise<Response> {
+  const { puzzleId, ban } = params as { puzzleId?: unknown; ban?: { from?: unknown; to?: unknown } };
+  if (typeof puzzleId !== "string" || !puzzleId) {
+    return errorResponse("Missing puzzleId", 400);
+  }
+  if (!ban || typeof ban.from !== "string" || typeof ban.to !== "string") {
+    return errorResponse("Missing ban", 400);
+  }
+  const submitted: Ban = { from: ban.from, to: ban.to };
+
+  const { data: puzzle, error } = await getTable(supabase, "puzzles")
+    .select("*")
+    .eq("id", puzzleId)
+    .maybeSingle();
+
+  logOperation("get puzzle", error);
+  if (error || !puzzle) {
+    return errorResponse("Puzzle not found", 404);
+  }
+
+  const solution = puzzle.solution as unknown as Ban;
+  const solved = sameBan(submitted, solution);
+
+  const { count } = await getTable(supabase, "puzzle_attempts")
+    .select("id", { count: "exact", head: true })
+    .eq("puzzle_id", puzzle.id)
+    .eq("user_id", user.id);
+
+  let rating = await getPuzzleRating(supabase, user.id);
+  let ratingChange: number | null = null;
+
+  // Only the first try counts; retries are practice
+  if (!count) {
+    const expected = 1 / (1 + 10 ** ((puzzle.rating - rating) / 400));
+    const score = solved ? 1 : 0;
+    ratingChange = Math.round(PLAYER_K_FACTOR * (score - expected));
+    rating += ratingChange;
+
+    const { error: profileError } = await getTable(supabase, "profiles")
+      .update({ puzzle_rating: rating })
+      .eq("id", user.id);
+    logOperation("update puzzle rating", profileError);
+
+    const { error: puzzleError } = await getTable(supabase, "puzzles")
+      .update({
+        rating: puzzle.rating + Math.round(PUZZLE_K_FACTOR * (expected - score)),
+        attempts: puzzle.attempts + 1,
+        solves: puzzle.solves + score,
+      })
+      .eq("id", puzzle.id);
+    logOperation("update puzzle stats", puzzleError);
+  }
+
+  const { error: attemptError } = await getTable(supabase, "puzzle_attempts")
+    .insert({
+      puzzle_id: puzzle.id,
+      user_id: user.id,
+      ban: { from: submitted.from, to: submitted.to },
+      solved,
+      rating_change: ratingChange,
+    });
+
+  logOperation("record puzzle attempt", attemptError);
+  if (attemptError) {
+    return errorResponse("Failed to record attempt", 500);
+  }
+
+  return successResponse(
+    { solved, solution: { from: solution.from, to: solution.to }, ratingChange, rating },
+    solved ? "Solved" : "Not the best ban",
+  );
+}
+
+/**
+ * The player's most recent puzzle attempts
+ */
+export async function getPuzzleHistory(
+  user: User,
+  _params: Record<string, unknown>,
+  supabase: TypedSupabaseClient,
+): Promise<Response> {
+  const { data: attempts, error } = await getTable(supabase, "puzzle_attempts")
+    .select("id, puzzle_id, solved, rating_change, created_at, puzzles(kind, rating)")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: false })
+    .limit(HISTORY_LIMIT);
+
+  logOperation("fetch puzzle history", error);
+  if (error) {
+    return errorResponse("Failed to load puzzle history", 500);
+  }
+
+  const rating = await getPuzzleRating(supabase, user.id);
+  return successResponse({ attempts: attempts || [], rating });
+}
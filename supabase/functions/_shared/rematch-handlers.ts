@@ -0,0 +1,231 @@
+/// <reference lib="deno.ns" />
+/**
+ * Rematches
+ * Once a game is over either player can offer a rematch. The offer is kept
+ * on the finished game (rematch_offered_by) and broadcast on its channel;
+ * accepting creates the next game with colors swapped and the same time
+ * control, linked back through parent_game_id.
+ */
+
+import type { User } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createLogger } from "./logger.ts";
+import { errorResponse, successResponse } from "./response-utils.ts";
+import { getTable, logOperation } from "./db-utils.ts";
+import type { TypedSupabaseClient } from "./db-utils.ts";
+import type { Tables } from "./database-types.ts";
+import { EventType, recordEvent } from "./event-utils.ts";
+import { INITIAL_FEN } from "./constants.ts";
+import { startingGameFields } from "./start-position.ts";
+import { broadcastGameUpdate, gameUpdateFromRow } from "./game-broadcast.ts";
+
+const logger = createLogger("REMATCH");
+
+type Color = "white" | "black";
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = "23505";
+
+async function loadFinishedGame(
+  supabase: TypedSupabaseClient,
+  user: User,
+  gameId: unknown,
+): Promise<{ game: Tables<"games">; color: Color } | Response> {
+  if (typeof gameId !== "string" || !gameId) {
+    return errorResponse("Missing gameId", 400);
+  }
+
+  const { data: game, error } = await getTable(supabase, "games")
+    .select("*")
+    .eq("id", gameId)
+    .maybeSingle();
+
+  logOperation("get game for rematch", error);
+  if (error || !game) {
+    return errorResponse("Game not found", 404);
+  }
+
+  const color: Color | null = user.id === game.white_player_id
+    ? "white"
+    : user.id === game.black_player_id
+    ? "black"
+    : null;
+  if (!color) {
+    return errorResponse("Not a player in this game", 403);
+  }
+
+  if (game.status === "active") {
+    return errorResponse("Game is still in progress", 400);
+  }
+
+  return { game, color };
+}
+
+async function findRematch(supabase: TypedSupabaseClient, gameId: string) {
+  const { data } = await getTable(supabase, "games")
+    .select("*")
+    .eq("parent_game_id", gameId)
+    .maybeSingle();
+  return data;
+}
+
+/**
+ * Offers a rematch. If the opponent has already offered one, this accepts it.
+ */
+export async function offerRematch(
+  user: User,
+  params: Record<string, unknown>,
+  supabase: TypedSupabaseClient,
+): Promise<Response> {
+  const loaded = await loadFinishedGame(supabase, user, params.gameId);
+  if (loaded instanceof Response) return loaded;
+  const { game, color } = loaded;
+
+  if (game.is_bot_game) {
+    return errorResponse("Bots don't play rematches", 400);
+  }
+
+  const existing = await findRematch(supabase, game.id);
+  if (existing) {
+    return successResponse({ game: existing }, "Rematch already started");
+  }
+
+  if (game.rematch_offered_by && game.rematch_offered_by !== color) {
+    return await acceptRematch(user, params, supabase);
+  }
+
+  if (game.rematch_offered_by === color) {
+    return successResponse({ game }, "Rematch already offered");
+  }
+
+  const { data: updated, error } = await getTable(supabase, "games")
+    .update({ rematch_offered_by: color })
+    .eq("id", game.id)
+    .is("rematch_offered_by", null)
+    .select("*");
+
+  logOperation("offer rematch", error);
+  if (error) {
+    return errorResponse("Failed to offer rematch", 500);
+  }
+  if (!updated || updated.length === 0) {
+    // The opponent offered at the same moment - take theirs
+    return await acceptRematch(user, params, supabase);
+  }
+
+  await recordEvent(supabase, EventType.OFFER_MADE, { game_id: game.id, offer: "rematch", color }, user.id);
+  await broadcastGameUpdate(supabase, gameUpdateFromRow(updated[0]));
+
+  return successResponse({ game: updated[0] }, "Rematch offered");
+}
+
+/**
+ * Accepts the opponent's rematch offer and starts the next game
+ */
+export async function acceptRematch(
+  user: User,
+  params: Record<string, unknown>,
+  supabase: TypedSupabaseClient,
+): Promise<Response> {
+  const loaded = await loadFinishedGame(supabase, user, params.gameId);
+  if (loaded instanceof Response) return loaded;
+  const { game, color } = loaded;
+
+  const existing = await findRematch(supabase, game.id);
+  if (existing) {
+    return successResponse({ game: existing }, "Rematch already started");
+  }
+
+  if (!game.rematch_offered_by || game.rematch_offered_by === color) {
+    return errorResponse("No rematch offer to accept", 400);
+  }
+
+  const timeControl = game.time_control as { initial_time?: number; increment?: number } | null;
+
+  const { data: rematch, error: insertError } = await getTable(supabase, "games")
+    .insert({
+      // Colors swap every game of the series
+      white_player_id: game.black_player_id,
+      black_player_id: game.white_player_id,
+      status: "active",
+      // Same start as this game, so a Chess960 series keeps its position
+      ...startingGameFields(game.starting_fen ?? INITIAL_FEN),
+      pgn: "",
+      time_control: game.time_control,
+      white_time_remaining: timeControl?.initial_time ?? null,
+      black_time_remaining: timeControl?.initial_time ?? null,
+      is_rated: game.is_rated,
+      is_public: game.is_public,
+      parent_game_id: game.id,
+    })
+    .select("*")
+    .single();
+
+  logOperation("create rematch", insertError);
+  if (insertError) {
+    if (insertError.code === UNIQUE_VIOLATION) {
+      // Both players accepted at once; the other request created it
+      const created = await findRematch(supabase, game.id);
+      if (created) return successResponse({ game: created }, "Rematch already started");
+    }
+    logger.error("Rematch creation error:", insertError);
+    return errorResponse("Error creating rematch", 500);
+  }
+
+  logger.info(`Created rematch ${rematch.id} of game ${game.id}`);
+
+  const { data: updated, error: updateError } = await getTable(supabase, "games")
+    .update({ rematch_offered_by: null })
+    .eq("id", game.id)
+    .select("*")
+    .single();
+
+  logOperation("clear rematch offer", updateError);
+
+  await recordEvent(supabase, EventType.OFFER_ACCEPTED, { game_id: game.id, offer: "rematch", rematch_game_id: rematch.id }, user.id);
+  await recordEvent(supabase, EventType.GAME_CREATED, {
+    game_id: rematch.id,
+    whiteId: rematch.white_player_id,
+    blackId: rematch.black_player_id,
+    parentGameId: game.id,
+  });
+
+  // Both players are still watching the finished game; this sends them on
+  await broadcastGameUpdate(supabase, gameUpdateFromRow(updated ?? game, { rematch_game_id: rematch.id }));
+
+  return successResponse({ game: rematch }, "Rematch started");
+}
+
+/**
+ * Declines the opponent's rematch offer, or withdraws your own
+ */
+export async function declineRematch(
+  user: User,
+  params: Record<string, unknown>,
+  supabase: TypedSupabaseClient,
+): Promise<Response> {
+  const loaded = await loadFinishedGame(supabase, user, params.gameId);
+  if (loaded instanceof Response) return loaded;
+  const { game, color } = loaded;
+
+  if (!game.rematch_offered_by) {
+    return errorResponse("No rematch offer to decline", 400);
+  }
+
+  const { data: updated, error } = await getTable(supabase, "games")
+    .update({ rematch_offered_by: null })
+    .eq("id", game.id)
+    .select("*")
+    .single();
+
+  logOperation("decline rematch", error);
+  if (error || !updated) {
+    return errorResponse("Failed to decline rematch", 500);
+  }
+
+  if (game.rematch_offered_by !== color) {
+    await recordEvent(supabase, EventType.OFFER_DECLINED, { game_id: game.id, offer: "rematch" }, user.id);
+  }
+  await broadcastGameUpdate(supabase, gameUpdateFromRow(updated));
+
+  return successResponse({ game: updated }, "Rematch declined");
+}
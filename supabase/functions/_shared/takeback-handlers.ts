@@ -0,0 +1,271 @@
+/// <reference lib="deno.ns" />
+/**
+ * Takebacks
+ * The player who made the last action (a ban or a move) can ask to take it
+ * back. If the opponent accepts, the game is rebuilt from its game_moves
+ * minus that action and the new state is broadcast like any other update.
+ * Rated games allow it too unless the allow_rated_takebacks setting is off.
+ */
+
+import { BanChess } from "https://esm.sh/ban-chess.ts@1.1.1";
+import type { User } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createLogger } from "./logger.ts";
+import { errorResponse, successResponse } from "./response-utils.ts";
+import { getTable, logOperation } from "./db-utils.ts";
+import type { TypedSupabaseClient } from "./db-utils.ts";
+import type { Json, Tables } from "./database-types.ts";
+import { getRunningTimeRemaining } from "./clock-handlers.ts";
+import { getAppSetting } from "./app-settings.ts";
+import { appendPgnAction, buildPgn, parsePgn } from "./pgn.ts";
+import { broadcastGameUpdate, gameUpdateFromRow } from "./game-broadcast.ts";
+
+const logger = createLogger("TAKEBACK");
+
+type Color = "white" | "black";
+
+// app_settings key; casual games always allow takebacks
+const RATED_TAKEBACKS_SETTING = "allow_rated_takebacks";
+
+/**
+ * Whether rated games allow takebacks (allowed unless the setting is off)
+ */
+async function ratedTakebacksAllowed(supabase: TypedSupabaseClient): Promise<boolean> {
+  const value = await getAppSetting(supabase, RATED_TAKEBACKS_SETTING);
+  return value !== false && value !== "false";
+}
+
+/**
+ * The player who made the most recent action. Moves are followed by the same
+ * player's ban, so a pending ban means the side to act just moved.
+ */
+function lastActor(fen: string | null): Color {
+  const engine = new BanChess(fen || undefined);
+  if (engine.nextActionType() === "ban") return engine.turn;
+  return engine.turn === "white" ? "black" : "white";
+}
+
+async function loadActiveGame(
+  supabase: TypedSupabaseClient,
+  user: User,
+  gameId: unknown,
+): Promise<{ game: Tables<"games">; color: Color } | Response> {
+  if (typeof gameId !== "string" || !gameId) {
+    return errorResponse("Missing gameId", 400);
+  }
+
+  const { data: game, error } = await getTable(supabase, "games")
+    .select("*")
+    .eq("id", gameId)
+    .maybeSingle();
+
+  logOperation("get game for takeback", error);
+  if (error || !game) {
+    return errorResponse("Game not found", 404);
+  }
+
+  const color: Color | null = user.id === game.white_player_id
+    ? "white"
+    : user.id === game.black_player_id
+    ? "black"
+    : null;
+  if (!color) {
+    return errorResponse("Not a player in this game", 403);
+  }
+
+  if (game.status !== "active") {
+    return errorResponse("Game is not active", 400);
+  }
+
+  return { game, color };
+}
+
+/**
+ * Asks the opponent to undo the requester's last action
+ */
+export async function requestTakeback(
+  user: User,
+  params: Record<string, unknown>,
+  supabase: TypedSupabaseClient,
+): Promise<Response> {
+  const loaded = await loadActiveGame(supabase, user, params.gameId);
+  if (loaded instanceof Response) return loaded;
+  const { game, color } = loaded;
+
+  if (game.is_bot_game) {
+    return errorResponse("Bots don't accept takebacks", 400);
+  }
+
+  if (game.is_rated && !await ratedTakebacksAllowed(supabase)) {
+    return errorResponse("Takebacks are disabled in rated games", 403);
+  }
+
+  const { count } = await getTable(supabase, "game_moves")
+    .select("id", { count: "exact", head: true })
+    .eq("game_id", game.id);
+
+  if (!count || lastActor(game.current_fen) !== color) {
+    return errorResponse("You can only take back your own last action", 400);
+  }
+
+  if (game.takeback_requested_by === color) {
+    return successResponse({ game }, "Takeback already requested");
+  }
+
+  // Pinned to the version so the request can't outlive the action it targets
+  const { data: updated, error } = await getTable(supabase, "games")
+    .update({ takeback_requested_by: color })
+    .eq("id", game.id)
+    .eq("version", game.version)
+    .eq("status", "active")
+    .select("*");
+
+  logOperation("request takeback", error);
+  if (error) {
+    return errorResponse("Failed to request takeback", 500);
+  }
+  if (!updated || updated.length === 0) {
+    return errorResponse("Game state has changed, please resync", 409);
+  }
+
+  await broadcastGameUpdate(supabase, gameUpdateFromRow(updated[0]));
+  return successResponse({ game: updated[0] }, "Takeback requested");
+}
+
+/**
+ * Accepts the opponent's takeback request and rolls the game back one action
+ */
+export async function acceptTakeback(
+  user: User,
+  params: Record<string, unknown>,
+  supabase: TypedSupabaseClient,
+): Promise<Response> {
+  const loaded = await loadActiveGame(supabase, user, params.gameId);
+  if (loaded instanceof Response) return loaded;
+  const { game, color } = loaded;
+
+  if (!game.takeback_requested_by || game.takeback_requested_by === color) {
+    return errorResponse("No takeback request to accept", 400);
+  }
+
+  const { data: moves, error: movesError } = await getTable(supabase, "game_moves")
+    .select("*")
+    .eq("game_id", game.id)
+    .order("ply", { ascending: true });
+
+  logOperation("fetch moves for takeback", movesError);
+  if (movesError || !moves || moves.length === 0) {
+    return errorResponse("Nothing to take back", 400);
+  }
+
+  const undone = moves[moves.length - 1];
+
+  // Replay everything but the last action
+  const engine = new BanChess(game.starting_fen || undefined);
+  let movetext = "";
+  const acted = new Set<Color>();
+  for (const row of moves.slice(0, -1)) {
+    const data = row.action_data as { from: string; to: string; promotion?: "q" | "r" | "b" | "n" };
+    const actingColor = engine.turn;
+    acted.add(actingColor);
+    const fenBefore = engine.fen();
+    const result = row.action_type === "ban"
+      ? engine.play({ ban: { from: data.from, to: data.to } })
+      : engine.play({ move: data });
+    if (!result.success) {
+      logger.error(`Failed to replay ply ${row.ply} of game ${game.id}:`, result.error);
+      return errorResponse("Could not rebuild the game for a takeback", 500);
+    }
+    movetext = appendPgnAction(
+      movetext,
+      row.action_type === "ban"
+        ? { type: "ban", from: data.from, to: data.to }
+        : { type: "move", san: result.san ?? `${data.from}${data.to}` },
+      actingColor,
+      fenBefore,
+    );
+  }
+
+  const nextAction = engine.nextActionType();
+  const newTurn = engine.turn;
+
+  // Charge the running clock up to now, then hand the turn back
+  const nowMs = Date.now();
+  const whiteTime = getRunningTimeRemaining(game, "white", nowMs);
+  const blackTime = getRunningTimeRemaining(game, "black", nowMs);
+
+  const { headers: pgnHeaders } = parsePgn(game.pgn);
+  const now = new Date(nowMs).toISOString();
+
+  // The action is deleted and the game rolled back in one transaction, and
+  // only while the request is still open (see take_back_game_action)
+  const { data: updated, error: updateError } = await supabase.rpc("take_back_game_action", {
+    p_game_id: game.id,
+    p_version: game.version,
+    p_move_id: undone.id,
+    p_game: {
+      current_fen: engine.fen(),
+      ban_chess_state: nextAction === "ban" ? "waiting_for_ban" : "waiting_for_move",
+      turn: newTurn,
+      banning_player: nextAction === "ban" ? newTurn : null,
+      pgn: buildPgn(movetext, { startingFen: game.starting_fen }, pgnHeaders),
+      white_time_remaining: whiteTime,
+      black_time_remaining: blackTime,
+      white_turn_start_time: newTurn === "white" ? nowMs : null,
+      black_turn_start_time: newTurn === "black" ? nowMs : null,
+      last_clock_update: now,
+      updated_at: now,
+      // Restarts the abort window if the game is back before both sides' first action
+      last_move_at: now,
+      white_has_acted: acted.has("white"),
+      black_has_acted: acted.has("black"),
+    },
+  });
+
+  logOperation("apply takeback", updateError);
+  if (updateError) {
+    return errorResponse("Failed to apply takeback", 500);
+  }
+  if (!updated || updated.length === 0) {
+    return errorResponse("Game state has changed, please resync", 409);
+  }
+
+  logger.info(`Took back ply ${undone.ply} (${undone.action_type}) in game ${game.id}`);
+
+  await broadcastGameUpdate(supabase, gameUpdateFromRow(updated[0], {
+    legalMoves: engine.legalMoves(),
+    nextActionType: nextAction,
+  }));
+
+  return successResponse({ game: updated[0], undone: undone.action_data as Json }, "Takeback applied");
+}
+
+/**
+ * Declines the opponent's takeback request, or withdraws your own
+ */
+export async function declineTakeback(
+  user: User,
+  params: Record<string, unknown>,
+  supabase: TypedSupabaseClient,
+): Promise<Response> {
+  const loaded = await loadActiveGame(supabase, user, params.gameId);
+  if (loaded instanceof Response) return loaded;
+  const { game } = loaded;
+
+  if (!game.takeback_requested_by) {
+    return errorResponse("No takeback request to decline", 400);
+  }
+
+  const { data: updated, error } = await getTable(supabase, "games")
+    .update({ takeback_requested_by: null })
+    .eq("id", game.id)
+    .select("*")
+    .single();
+
+  logOperation("decline takeback", error);
+  if (error || !updated) {
+    return errorResponse("Failed to decline takeback", 500);
+  }
+
+  await broadcastGameUpdate(supabase, gameUpdateFromRow(updated));
+  return successResponse({ game: updated }, "Takeback declined");
+}
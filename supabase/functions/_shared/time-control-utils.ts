@@ -8,7 +8,27 @@ const logger = createLogger("TIME_CONTROL");
 export interface TimeControl {
   initialTime: number; // milliseconds
   increment: number; // milliseconds
+  banTimeLimit?: number; // milliseconds per ban, if bans are timed
 }
+
+/**
+ * Time control presets players can queue for, by "minutes+increment" id.
+ * Client-side twin: src/utils/timeControlPresets.ts.
+ */
+export const TIME_CONTROL_PRESETS: Record<string, { minutes: number; increment: number }> = {
+  "1+0": { minutes: 1, increment: 0 },
+  "2+1": { minutes: 2, increment: 1 },
+  "3+0": { minutes: 3, increment: 0 },
+  "3+2": { minutes: 3, increment: 2 },
+  "5+0": { minutes: 5, increment: 0 },
+  "10+0": { minutes: 10, increment: 0 },
+  "15+10": { minutes: 15, increment: 10 },
+};
+
+export function isTimeControlPreset(id: unknown): id is string {
+  return typeof id === "string" && Object.hasOwn(TIME_CONTROL_PRESETS, id);
+}
+
 export function toJson<T>(input: T): Json {
   return input as unknown as Json;
 }
@@ -43,6 +63,7 @@ export async function getDefaultTimeControl(
         return {
           initialTime: parsed.initial_time || 600000,
           increment: parsed.increment || 0,
+          ...(parsed.ban_time_limit > 0 && { banTimeLimit: parsed.ban_time_limit }),
         };
       } catch (e) {
         logger.error("Error parsing time control:", e);
@@ -76,3 +97,22 @@ export async function getDefaultIncrement(
   const timeControl = await getDefaultTimeControl(supabase);
   return timeControl.increment;
 }
+
+/**
+ * Time control for a queued preset, or the default time control when the
+ * entry has none. A per-ban limit from the default applies to every preset.
+ */
+export async function getPresetTimeControl(
+  supabase: TypedSupabaseClient,
+  presetId: string | undefined,
+): Promise<TimeControl> {
+  const defaults = await getDefaultTimeControl(supabase);
+  if (!presetId || !isTimeControlPreset(presetId)) return defaults;
+
+  const { minutes, increment } = TIME_CONTROL_PRESETS[presetId];
+  return {
+    initialTime: minutes * 60_000,
+    increment: increment * 1000,
+    ...(defaults.banTimeLimit && { banTimeLimit: defaults.banTimeLimit }),
+  };
+}
@@ -0,0 +1,50 @@
+/// <reference lib="deno.ns" />
+import { corsHeaders } from "./auth-utils.ts";
+import { createLogger } from "./logger.ts";
+import type { TypedSupabaseClient } from "./db-utils.ts";
+import type { Tables } from "./database-types.ts";
+
+const logger = createLogger("VERSION");
+
+/**
+ * Builds the 409 response for an action made against a stale game version.
+ * The current game row is included so the client can resync without a refetch.
+ */
+export function versionConflictResponse(
+  game: Tables<"games"> | null,
+  expectedVersion?: number,
+): Response {
+  return new Response(
+    JSON.stringify({
+      error: "Game state has changed, please resync",
+      code: "version_conflict",
+      expectedVersion,
+      currentVersion: game?.version ?? null,
+      game,
+    }),
+    { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  );
+}
+
+/**
+ * Refetches the game after a conditional update matched no rows and
+ * returns the conflict response for it.
+ */
+export async function staleActionResponse(
+  supabase: TypedSupabaseClient,
+  gameId: string,
+  expectedVersion: number,
+): Promise<Response> {
+  const { data: game, error } = await supabase
+    .from("games")
+    .select("*")
+    .eq("id", gameId)
+    .maybeSingle();
+
+  if (error) {
+    logger.warn(`Failed to fetch game ${gameId} for conflict response:`, error);
+  }
+
+  logger.info(`Rejected stale action on game ${gameId} (expected version ${expectedVersion}, now ${game?.version})`);
+  return versionConflictResponse(game, expectedVersion);
+}
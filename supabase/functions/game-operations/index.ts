@@ -5,11 +5,19 @@ import {
   corsHeaders,
   initSupabaseAdmin,
 } from "../_shared/auth-utils.ts";
-import { handleGameOperation } from "../_shared/game-handlers.ts";
+import { processGameAction, type GameAction } from "../_shared/game-actions.ts";
+import { broadcastGameUpdate, gameUpdateFromRow } from "../_shared/game-broadcast.ts";
+import { acceptRematch, declineRematch, offerRematch } from "../_shared/rematch-handlers.ts";
+import { acceptTakeback, declineTakeback, requestTakeback } from "../_shared/takeback-handlers.ts";
+import { saveGameReport } from "../_shared/game-report-handlers.ts";
 import {
   createGameFromMatchedPlayers,
   processMatchmakingQueue,
 } from "../_shared/db-trigger-handlers.ts";
+import { sweepTimeViolations } from "../_shared/clock-handlers.ts";
+import { sweepAbortableGames } from "../_shared/abort-handlers.ts";
+import { sweepBanTimeouts } from "../_shared/ban-timer.ts";
+import { sweepBotGames } from "../_shared/bot-players.ts";
 import { createRouter, defineRoute } from "../_shared/router-utils.ts";
 import { createLogger } from "../_shared/logger.ts";
 import { errorResponse, successResponse } from "../_shared/response-utils.ts";
@@ -23,6 +31,14 @@ import type { TypedSupabaseClient } from "../_shared/db-utils.ts";
 // Create a logger for this module
 const logger = createLogger("GAME-OPS");
 
+// Scheduled sweepers, run from CRON jobs (or by an admin) by path
+const SWEEPERS: Record<string, (supabase: TypedSupabaseClient) => Promise<unknown>> = {
+  "sweep-flags": sweepTimeViolations,
+  "sweep-aborts": sweepAbortableGames,
+  "sweep-bans": sweepBanTimeouts,
+  "sweep-bots": sweepBotGames,
+};
+
 // Game operations schemas
 const GameOpsSchemas = {
   NotifyUpdateParams: z.object({
@@ -40,6 +56,16 @@ const gameRouter = createRouter([
     "admin",
   ),
 
+  ...Object.entries(SWEEPERS).map(([name, sweep]) =>
+    defineRoute(
+      name,
+      async (user, params, supabase) => {
+        return successResponse(await sweep(supabase));
+      },
+      "admin",
+    )
+  ),
+
   defineRoute(
     "create-game-from-matched",
     async (user, params, supabase) => {
@@ -59,140 +85,63 @@ const gameRouter = createRouter([
   ),
 
 
-  // Game operation routes using unified handler
+  // Game actions share the game-action pipeline, which also broadcasts the update
   defineRoute("makeMove", async (user, params, supabase) => {
-    const result = await handleGameOperation(
-      user,
-      params,
-      supabase,
-      "makeMove",
-    );
-
-    // After successful operation, notify game update and broadcast minimal move
-    if (result.status === 200 && params.gameId) {
-      try {
-        // Minimal move broadcast for optimistic UX
-        const channel = supabase.channel(`game:${params.gameId}:unified`);
-        if (params?.move?.from && params?.move?.to) {
-          await channel.send({
-            type: 'broadcast',
-            event: 'move',
-            payload: { from: params.move.from, to: params.move.to },
-          });
-        }
-      } catch (e) {
-        logger.warn(`Failed to broadcast move: ${e?.message}`);
-      }
-      try {
-        await notifyGameChange(supabase, params.gameId);
-      } catch (error) {
-        logger.warn(`Failed to notify game change: ${error.message}`);
-      }
-    }
-
-    return result;
+    const move = params.move as GameAction["move"];
+    return await runGameAction(user, params, supabase, { move });
   }),
 
   defineRoute("banMove", async (user, params, supabase) => {
-    const result = await handleGameOperation(user, params, supabase, "banMove");
-    if (result.status === 200 && params.gameId) {
-      try {
-        const channel = supabase.channel(`game:${params.gameId}:unified`);
-        if (params?.move?.from && params?.move?.to) {
-          await channel.send({ type: 'broadcast', event: 'ban', payload: { from: params.move.from, to: params.move.to } });
-        }
-      } catch (e) {
-        logger.warn(`Failed to broadcast ban: ${e?.message}`);
-      }
-      await notifyGameChange(supabase, params.gameId);
-    }
-    return result;
+    const ban = (params.ban ?? params.move) as GameAction["ban"];
+    return await runGameAction(user, params, supabase, { ban });
   }),
 
   defineRoute("offerDraw", async (user, params, supabase) => {
-    const result = await handleGameOperation(
-      user,
-      params,
-      supabase,
-      "offerDraw",
-    );
-    if (result.status === 200 && params.gameId) {
-      await notifyGameChange(supabase, params.gameId);
-    }
-    return result;
+    return await runGameAction(user, params, supabase, { drawOffer: true });
   }),
 
   defineRoute("acceptDraw", async (user, params, supabase) => {
-    const result = await handleGameOperation(
-      user,
-      params,
-      supabase,
-      "acceptDraw",
-    );
-    if (result.status === 200 && params.gameId) {
-      await notifyGameChange(supabase, params.gameId);
-    }
-    return result;
+    return await runGameAction(user, params, supabase, { drawAccept: true });
   }),
 
   defineRoute("declineDraw", async (user, params, supabase) => {
-    const result = await handleGameOperation(
-      user,
-      params,
-      supabase,
-      "declineDraw",
-    );
-    if (result.status === 200 && params.gameId) {
-      await notifyGameChange(supabase, params.gameId);
-    }
-    return result;
+    return await runGameAction(user, params, supabase, { drawDecline: true });
   }),
 
   defineRoute("offerRematch", async (user, params, supabase) => {
-    const result = await handleGameOperation(
-      user,
-      params,
-      supabase,
-      "offerRematch",
-    );
-    if (result.status === 200 && params.gameId) {
-      await notifyGameChange(supabase, params.gameId);
-    }
-    return result;
+    return await offerRematch(user, params, supabase);
   }),
 
   defineRoute("acceptRematch", async (user, params, supabase) => {
-    const result = await handleGameOperation(
-      user,
-      params,
-      supabase,
-      "acceptRematch",
-    );
-    if (result.status === 200 && params.gameId) {
-      await notifyGameChange(supabase, params.gameId);
-    }
-    return result;
+    return await acceptRematch(user, params, supabase);
   }),
 
   defineRoute("declineRematch", async (user, params, supabase) => {
-    const result = await handleGameOperation(
-      user,
-      params,
-      supabase,
-      "declineRematch",
-    );
-    if (result.status === 200 && params.gameId) {
-      await notifyGameChange(supabase, params.gameId);
-    }
-    return result;
+    return await declineRematch(user, params, supabase);
+  }),
+
+  defineRoute("requestTakeback", async (user, params, supabase) => {
+    return await requestTakeback(user, params, supabase);
+  }),
+
+  defineRoute("acceptTakeback", async (user, params, supabase) => {
+    return await acceptTakeback(user, params, supabase);
+  }),
+
+  defineRoute("declineTakeback", async (user, params, supabase) => {
+    return await declineTakeback(user, params, supabase);
+  }),
+
+  defineRoute("saveGameReport", async (user, params, supabase) => {
+    return await saveGameReport(user, params, supabase);
   }),
 
   defineRoute("resign", async (user, params, supabase) => {
-    const result = await handleGameOperation(user, params, supabase, "resign");
-    if (result.status === 200 && params.gameId) {
-      await notifyGameChange(supabase, params.gameId);
-    }
-    return result;
+    return await runGameAction(user, params, supabase, { resign: true });
+  }),
+
+  defineRoute("abort", async (user, params, supabase) => {
+    return await runGameAction(user, params, supabase, { abort: true });
   }),
 
   defineRoute("sendChatMessage", async (user, params, supabase) => {
@@ -202,6 +151,23 @@ const gameRouter = createRouter([
 
 ]);
 
+/**
+ * Runs a game action from router params through the shared pipeline
+ */
+async function runGameAction(
+  user: User,
+  params: Record<string, unknown>,
+  supabase: TypedSupabaseClient,
+  action: GameAction,
+) {
+  return await processGameAction(supabase, user, {
+    gameId: params.gameId as string,
+    action,
+    expectedVersion: params.expectedVersion as number | undefined,
+    actionId: params.actionId as string | undefined,
+  });
+}
+
 /**
  * Handles chat message with moderation
  */
@@ -427,12 +393,7 @@ async function notifyGameChange(supabase: TypedSupabaseClient, gameId: string) {
     });
 
     // Broadcast realtime update so both clients get the change immediately
-    const channel = supabase.channel(`game:${gameId}:unified`);
-    await channel.send({
-      type: 'broadcast',
-      event: 'game_update',
-      payload: game,
-    });
+    await broadcastGameUpdate(supabase, gameUpdateFromRow(game));
 
     logger.info(`Broadcasted game_update for ${gameId}`);
     return true;
@@ -491,6 +452,20 @@ async function handleCronRequest(req: Request) {
   }
 }
 
+// CRON handler for the sweepers
+async function handleSweepCron(name: string) {
+  logger.info(`Running ${name} from CRON job`);
+
+  try {
+    const supabaseAdmin = initSupabaseAdmin();
+    return successResponse(await SWEEPERS[name](supabaseAdmin));
+  } catch (error) {
+    logger.error(`Error in ${name} cron handler:`, error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return errorResponse(errorMessage, 500);
+  }
+}
+
 // Main serve function
 serve(async (req) => {
   // Extract request path
@@ -500,13 +475,17 @@ serve(async (req) => {
   logger.info(`Received request: ${req.method} ${url.pathname}`);
 
   // Special handling for CRON jobs (authenticated by Supabase platform)
-  if (
-    path === "process-matches" &&
-    req.headers.get("Authorization") === `Bearer ${Deno.env.get("CRON_SECRET")}`
-  ) {
+  const cronSecret = Deno.env.get("CRON_SECRET");
+  const isCron = !!cronSecret && req.headers.get("Authorization") === `Bearer ${cronSecret}`;
+
+  if (isCron && path === "process-matches") {
     return await handleCronRequest(req);
   }
 
+  if (isCron && path && Object.hasOwn(SWEEPERS, path)) {
+    return await handleSweepCron(path);
+  }
+
   // Handle CORS preflight requests
   if (req.method === "OPTIONS") {
     return new Response("ok", { headers: corsHeaders });
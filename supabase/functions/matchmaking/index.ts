@@ -16,10 +16,16 @@ import {
   logOperation,
 } from "../_shared/db-utils.ts";
 import { createLogger } from "../_shared/logger.ts";
+import { findBotOpponent, getBotWaitMs, scheduleBotTurns } from "../_shared/bot-players.ts";
 import { errorResponse, successResponse } from "../_shared/response-utils.ts";
 import { createRouter, defineRoute } from "../_shared/router-utils.ts";
-import { INITIAL_FEN } from "../_shared/constants.ts";
-import { getDefaultTimeControl } from "../_shared/time-control-utils.ts";
+import { startingFenFor, startingGameFields } from "../_shared/start-position.ts";
+import { entryPool, findPoolPair } from "../_shared/matchmaking-pools.ts";
+import {
+  getDefaultTimeControl,
+  getPresetTimeControl,
+  isTimeControlPreset,
+} from "../_shared/time-control-utils.ts";
 
 const logger = createLogger("MATCHMAKING");
 
@@ -31,7 +37,7 @@ type MatchmakingRecord = Tables<"matchmaking">;
 const matchmakingRouter = createRouter([
   // Join matchmaking queue
   defineRoute("joinQueue", async (user, params, supabase) => {
-    return await handleJoinQueue(user, supabase);
+    return await handleJoinQueue(user, supabase, params.startPosition, params.timeControl);
   }),
 
   // Leave matchmaking queue
@@ -63,10 +69,35 @@ async function getTimeControlFromDB(supabase: TypedSupabaseClient) {
   return await getDefaultTimeControl(supabase);
 }
 
+/**
+ * The longest-waiting player, if they have waited long enough to be given a bot
+ */
+async function findBotMatchEntry<T extends { joined_at: string | null }>(
+  supabase: TypedSupabaseClient,
+  entries: T[],
+): Promise<T | null> {
+  const waitMs = await getBotWaitMs(supabase);
+  const longest = entries[0];
+  if (waitMs === null || !longest?.joined_at) return null;
+  return Date.now() - new Date(longest.joined_at).getTime() >= waitMs ? longest : null;
+}
+
 /**
  * Handle join queue operation
  */
-async function handleJoinQueue(user: User, supabase: TypedSupabaseClient) {
+async function handleJoinQueue(
+  user: User,
+  supabase: TypedSupabaseClient,
+  startPosition?: unknown,
+  timeControl?: unknown,
+) {
+  if (startPosition !== undefined && startPosition !== "standard" && startPosition !== "chess960") {
+    return errorResponse("startPosition must be 'standard' or 'chess960'", 400);
+  }
+  if (timeControl !== undefined && !isTimeControlPreset(timeControl)) {
+    return errorResponse("timeControl must be one of the time control presets", 400);
+  }
+
   try {
     // Check if user already has an active game
     const { data: activeGames, error: activeGameError } = await getTable(
@@ -126,7 +157,10 @@ async function handleJoinQueue(user: User, supabase: TypedSupabaseClient) {
       .insert({
         player_id: user.id,
         status: "waiting",
-        preferences: {}, // Empty preferences object (required by schema)
+        preferences: {
+          start_position: startPosition ?? "standard",
+          ...(timeControl && { time_control: timeControl }),
+        },
       })
       .select("*")
       .maybeSingle();
@@ -147,7 +181,7 @@ async function handleJoinQueue(user: User, supabase: TypedSupabaseClient) {
       entityType: "matchmaking",
       entityId: queueEntry.id,
       userId: user.id,
-      data: {}, // No preferences data
+      data: { startPosition: startPosition ?? "standard", timeControl: timeControl ?? "default" },
     });
 
     // Try to find a match immediately
@@ -356,7 +390,7 @@ async function processMatchmakingQueue(supabase: TypedSupabaseClient) {
       supabase,
       "matchmaking",
     )
-      .select("player_id, joined_at")
+      .select("player_id, joined_at, preferences")
       .eq("status", "waiting")
       .order("joined_at", { ascending: true })
       .limit(20);
@@ -413,11 +447,29 @@ async function processMatchmakingQueue(supabase: TypedSupabaseClient) {
       },
     });
 
-    // If we have at least 2 waiting players, create a game
-    if (waitingPlayers && waitingPlayers.length >= 2) {
-      // Choose the first two with recent activity
-      const player1 = waitingPlayers[0].player_id;
-      const player2 = waitingPlayers[1].player_id;
+    // Players are only matched with someone in the same pool (start position and time control)
+    const pair = findPoolPair(waitingPlayers);
+
+    // Nobody to pair with - someone who has waited long enough gets a bot
+    const botMatchEntry = pair ? null : await findBotMatchEntry(supabase, waitingPlayers);
+    const botId = botMatchEntry ? await findBotOpponent(supabase, botMatchEntry.player_id) : null;
+
+    // If two waiting players share a pool (or a bot is standing in), create a game
+    if (pair || (botMatchEntry && botId)) {
+      let player1: string;
+      let player2: string;
+      if (pair) {
+        // Choose the first two with recent activity
+        player1 = pair[0].player_id;
+        player2 = pair[1].player_id;
+      } else {
+        // The bot takes a random color
+        [player1, player2] = Math.random() < 0.5
+          ? [botMatchEntry!.player_id, botId!]
+          : [botId!, botMatchEntry!.player_id];
+      }
+      const isBotGame = !pair;
+      const pool = entryPool(pair ? pair[0] : botMatchEntry!);
       
       // CRITICAL: Never match a player with themselves
       if (player1 === player2) {
@@ -450,8 +502,8 @@ async function processMatchmakingQueue(supabase: TypedSupabaseClient) {
         },
       });
 
-      // Get time control from database
-      const timeControl = await getDefaultTimeControl(supabase);
+      // The pool's preset, or the default time control from the database
+      const timeControl = await getPresetTimeControl(supabase, pool.timeControl);
 
       // Log time control retrieved
       await debugLog(supabase, {
@@ -467,17 +519,18 @@ async function processMatchmakingQueue(supabase: TypedSupabaseClient) {
           white_player_id: player1,
           black_player_id: player2,
           status: "active",
-          current_fen: INITIAL_FEN,
+          ...startingGameFields(startingFenFor(pool.startPosition)),
           pgn: "",
-          turn: "white",
-          banning_player: "black",
-          ban_chess_state: "waiting_for_ban", // Initial state for Ban Chess
           time_control: {
             initial_time: timeControl.initialTime,
             increment: timeControl.increment,
+            ...(timeControl.banTimeLimit && { ban_time_limit: timeControl.banTimeLimit }),
           },
           white_time_remaining: timeControl.initialTime,
           black_time_remaining: timeControl.initialTime,
+          // Queue games are rated; bot games stay out of the rating pool
+          is_rated: !isBotGame,
+          ...(isBotGame && { is_bot_game: true }),
         })
         .select("*")
         .maybeSingle();
@@ -524,6 +577,7 @@ async function processMatchmakingQueue(supabase: TypedSupabaseClient) {
           white_player_id: player1,
           black_player_id: player2,
           timeControl,
+          isBotGame,
         },
       });
 
@@ -568,6 +622,7 @@ async function processMatchmakingQueue(supabase: TypedSupabaseClient) {
         data: {
           white_player_id: player1,
           black_player_id: player2,
+          isBotGame,
         },
       });
 
@@ -599,9 +654,14 @@ entityId: game.id,
       }
 
       logger.info(
-        `Created game ${game.id} for players ${player1} and ${player2}`,
+        `Created ${isBotGame ? "bot " : ""}game ${game.id} for players ${player1} and ${player2}`,
       );
 
+      // A bot playing Black opens with its ban
+      if (isBotGame) {
+        scheduleBotTurns(game.id);
+      }
+
       // Log successful completion
       await debugLog(supabase, {
         eventType: "queue_processing_completed",
@@ -620,6 +680,7 @@ entityId: game.id,
         gameId: game.id,
         whitePlacerId: player1,
         blackPlayerId: player2,
+        isBotGame,
       });
     }
 
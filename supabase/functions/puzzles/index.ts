@@ -0,0 +1,77 @@
+/// <reference lib="deno.ns" />
+// puzzles/index.ts
+import { serve } from "https://deno.land/std@0.208.0/http/server.ts";
+import {
+  corsHeaders,
+  handleAuthenticatedRequest,
+  initSupabaseAdmin,
+} from "../_shared/auth-utils.ts";
+import { createLogger } from "../_shared/logger.ts";
+import {
+  getPuzzleHistory,
+  nextPuzzle,
+  scanCompletedGames,
+  submitPuzzleSolution,
+} from "../_shared/puzzle-handlers.ts";
+import { errorResponse, successResponse } from "../_shared/response-utils.ts";
+import { createRouter, defineRoute } from "../_shared/router-utils.ts";
+
+const logger = createLogger("PUZZLES");
+
+// Define puzzle operations
+const puzzleRouter = createRouter([
+  // Serve an unsolved puzzle near the player's rating
+  defineRoute("nextPuzzle", async (user, params, supabase) => {
+    return await nextPuzzle(user, params, supabase);
+  }),
+
+  // Check a ban against the solution
+  defineRoute("submitSolution", async (user, params, supabase) => {
+    return await submitPuzzleSolution(user, params, supabase);
+  }),
+
+  // Recent attempts
+  defineRoute("history", async (user, params, supabase) => {
+    return await getPuzzleHistory(user, params, supabase);
+  }),
+
+  // Extract puzzles from completed games - admin only
+  defineRoute(
+    "scanGames",
+    async (user, params, supabase) => {
+      return successResponse(await scanCompletedGames(supabase));
+    },
+    "service_role",
+  ),
+]);
+
+// Main serve function
+serve(async (req) => {
+  // Extract request path
+  const url = new URL(req.url);
+  const path = url.pathname.split("/").pop();
+
+  // Special handling for CRON jobs (authenticated by Supabase platform)
+  if (
+    path === "scan-games" &&
+    req.headers.get("Authorization") === `Bearer ${Deno.env.get("CRON_SECRET")}`
+  ) {
+    try {
+      const supabaseAdmin = initSupabaseAdmin();
+      return successResponse(await scanCompletedGames(supabaseAdmin));
+    } catch (error) {
+      logger.error("Error in puzzle scan cron handler:", error);
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return errorResponse(errorMessage, 500);
+    }
+  }
+
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  return await handleAuthenticatedRequest(req, async (user, body, supabase) => {
+    return await puzzleRouter(user, body, supabase);
+  });
+});
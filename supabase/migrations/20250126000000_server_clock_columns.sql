@@ -0,0 +1,19 @@
+-- Server-authoritative clock columns
+-- The clock handlers in supabase/functions/_shared/clock-handlers.ts read and
+-- write these, but they were never part of the schema.
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS white_turn_start_time BIGINT, -- epoch ms when White's clock started, NULL when stopped
+  ADD COLUMN IF NOT EXISTS black_turn_start_time BIGINT, -- epoch ms when Black's clock started, NULL when stopped
+  ADD COLUMN IF NOT EXISTS last_clock_update TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS clock_state JSONB,
+  ADD COLUMN IF NOT EXISTS lag_compensation_ms INTEGER DEFAULT 0;
+
+-- Remaining time is tracked in milliseconds (matches getDefaultTimeControl)
+ALTER TABLE games
+  ALTER COLUMN white_time_remaining SET DEFAULT 600000,
+  ALTER COLUMN black_time_remaining SET DEFAULT 600000,
+  ALTER COLUMN time_control SET DEFAULT '{"initial_time": 600000, "increment": 0}';
+
+COMMENT ON COLUMN games.white_turn_start_time IS 'Epoch ms when White''s clock started running (NULL when stopped)';
+COMMENT ON COLUMN games.black_turn_start_time IS 'Epoch ms when Black''s clock started running (NULL when stopped)';
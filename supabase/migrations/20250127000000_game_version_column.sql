@@ -0,0 +1,14 @@
+-- Optimistic concurrency control for game actions
+-- Every accepted move or ban bumps games.version. Clients send the version
+-- they saw with each action and the edge function only applies the action
+-- with a conditional update (WHERE version = <seen>), so two fast requests
+-- can no longer both read the same current_fen and overwrite each other.
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 0;
+
+-- Existing games: version = number of recorded actions
+UPDATE games
+SET version = (SELECT COUNT(*) FROM game_moves WHERE game_moves.game_id = games.id);
+
+COMMENT ON COLUMN games.version IS 'Number of accepted actions (bans + moves); game_moves.ply of the next action';
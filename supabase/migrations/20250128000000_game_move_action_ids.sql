@@ -0,0 +1,16 @@
+-- Idempotent action submission
+-- Clients tag every move/ban with a generated action ID. The ID and the
+-- response the edge function returned are stored with the recorded action,
+-- so a retried request (e.g. after a dropped response) gets the original
+-- result back instead of being applied a second time.
+
+ALTER TABLE game_moves
+  ADD COLUMN IF NOT EXISTS action_id TEXT,
+  ADD COLUMN IF NOT EXISTS result JSONB;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_game_moves_action_id
+  ON game_moves(game_id, action_id)
+  WHERE action_id IS NOT NULL;
+
+COMMENT ON COLUMN game_moves.action_id IS 'Client-generated ID of the request that made this action';
+COMMENT ON COLUMN game_moves.result IS 'Response returned for the action, replayed for duplicate submissions';
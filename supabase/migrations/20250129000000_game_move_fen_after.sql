@@ -0,0 +1,8 @@
+-- Record the position after every action so the edge functions can detect
+-- threefold repetition without replaying the whole game
+
+ALTER TABLE game_moves
+  ADD COLUMN IF NOT EXISTS fen_after TEXT;
+
+COMMENT ON COLUMN game_moves.fen_after IS 'Extended (ban chess) FEN of the position after this action';
+COMMENT ON COLUMN games.end_reason IS 'checkmate, resignation, draw_agreement, stalemate, insufficient_material, threefold_repetition, fifty_move_rule or timeout';
@@ -0,0 +1,16 @@
+-- Rematches
+-- After a game ends either player can offer a rematch (rematch_offered_by).
+-- Accepting creates a new game with colors swapped that points back at the
+-- finished one through parent_game_id, so a series can be followed game by game.
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS rematch_offered_by TEXT CHECK (rematch_offered_by IN ('white', 'black')),
+  ADD COLUMN IF NOT EXISTS parent_game_id UUID REFERENCES games(id) ON DELETE SET NULL;
+
+-- A game has at most one rematch, even if both players accept at once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_games_parent_game_id
+  ON games(parent_game_id)
+  WHERE parent_game_id IS NOT NULL;
+
+COMMENT ON COLUMN games.rematch_offered_by IS 'Color of the player with an open rematch offer on this finished game';
+COMMENT ON COLUMN games.parent_game_id IS 'The game this one is a rematch of';
@@ -0,0 +1,9 @@
+-- Draw offers
+-- Resignations and draw agreements now go through the game-action edge
+-- function. An open draw offer is kept on the game until the opponent accepts
+-- or declines it, or answers it with a move.
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS draw_offered_by TEXT CHECK (draw_offered_by IN ('white', 'black'));
+
+COMMENT ON COLUMN games.draw_offered_by IS 'Color of the player with an open draw offer';
@@ -0,0 +1,12 @@
+-- Aborted games
+-- A game can be aborted until each side has acted once (Black's opening ban
+-- and White's first move), by either player or by the abort sweeper when the
+-- first action doesn't arrive in time. Aborted games are not rated: the
+-- player stats trigger only fires on 'completed'.
+
+ALTER TABLE games DROP CONSTRAINT IF EXISTS games_status_check;
+ALTER TABLE games
+  ADD CONSTRAINT games_status_check CHECK (status IN ('active', 'completed', 'abandoned', 'aborted'));
+
+-- The sweeper only looks at games still inside the abort window
+CREATE INDEX IF NOT EXISTS idx_games_abortable ON games(created_at) WHERE status = 'active' AND version < 2;
@@ -0,0 +1,11 @@
+-- Takebacks
+-- The player who made the last action can ask to take it back. The request
+-- stays on the game until the opponent answers it or another action is
+-- played. Accepting rebuilds the game from game_moves minus the last row.
+-- Rated games allow them too unless the allow_rated_takebacks setting is
+-- 'false'.
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS takeback_requested_by TEXT CHECK (takeback_requested_by IN ('white', 'black'));
+
+COMMENT ON COLUMN games.takeback_requested_by IS 'Color of the player with an open takeback request';
@@ -0,0 +1,10 @@
+-- Custom starting positions
+-- Games can start from a custom FEN or a Chess960 position. The start is
+-- kept (in the 7-field form with its ban state) so the game can be replayed
+-- and exported; NULL means the standard starting position.
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS starting_fen TEXT;
+
+COMMENT ON COLUMN games.starting_fen IS 'Extended FEN the game started from; NULL for the standard position';
+COMMENT ON COLUMN matchmaking.preferences IS 'Queue preferences; start_position (standard or chess960) picks the pool a player is matched in';
@@ -0,0 +1,21 @@
+-- Bot accounts
+-- Server-side bot profiles fill in for a missing opponent once a player has
+-- waited in the queue longer than the bot_match_wait_seconds setting. Bots
+-- are ordinary auth users (created on demand by the matchmaking function)
+-- whose turns are played by the game-action pipeline on their behalf. Bot
+-- games are flagged and never rated, so bots stay out of the human rating
+-- pool.
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS is_bot BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS bot_level TEXT CHECK (bot_level IN ('easy', 'medium', 'hard'));
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS is_bot_game BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_is_bot ON profiles(is_bot) WHERE is_bot;
+CREATE INDEX IF NOT EXISTS idx_games_active_bot_games ON games(id) WHERE is_bot_game AND status = 'active';
+
+COMMENT ON COLUMN profiles.is_bot IS 'Server-side bot account that plays in matchmaking';
+COMMENT ON COLUMN profiles.bot_level IS 'Search level a bot account plays at';
+COMMENT ON COLUMN games.is_bot_game IS 'One side is a bot; never rated';
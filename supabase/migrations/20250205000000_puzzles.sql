@@ -0,0 +1,59 @@
+-- Ban puzzles
+-- A scheduled job replays completed games from game_moves and keeps the
+-- positions where one ban decides the game: ban-mates (the side in check has
+-- a single escape) and winning bans. Puzzles are served by the puzzles
+-- function, which picks them by the player's puzzle_rating and keeps the
+-- solution hidden until a ban is submitted; every attempt is recorded.
+
+CREATE TABLE IF NOT EXISTS puzzles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id UUID REFERENCES games(id) ON DELETE SET NULL,
+  -- Actions played in the game before the puzzle position
+  ply INTEGER NOT NULL,
+  fen TEXT NOT NULL UNIQUE,
+  kind TEXT NOT NULL CHECK (kind IN ('ban_mate', 'winning_ban')),
+  solution JSONB NOT NULL,
+  rating INTEGER NOT NULL DEFAULT 1200,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  solves INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_puzzles_rating ON puzzles(rating);
+
+CREATE TABLE IF NOT EXISTS puzzle_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  puzzle_id UUID NOT NULL REFERENCES puzzles(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  ban JSONB NOT NULL,
+  solved BOOLEAN NOT NULL,
+  -- Change to the player's puzzle_rating; only a first attempt is rated
+  rating_change INTEGER,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_puzzle_attempts_user ON puzzle_attempts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_puzzle_attempts_puzzle_user ON puzzle_attempts(puzzle_id, user_id);
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS puzzle_rating INTEGER NOT NULL DEFAULT 1200;
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS puzzles_scanned_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_games_puzzles_unscanned
+  ON games(updated_at)
+  WHERE status = 'completed' AND puzzles_scanned_at IS NULL;
+
+-- Puzzles (with their solutions) are only read through the puzzles function
+ALTER TABLE puzzles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE puzzle_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own puzzle attempts" ON puzzle_attempts
+  FOR SELECT USING (user_id = auth.uid());
+
+COMMENT ON TABLE puzzles IS 'Ban puzzles extracted from completed games';
+COMMENT ON COLUMN puzzles.solution IS 'The winning ban, as {from, to}';
+COMMENT ON TABLE puzzle_attempts IS 'Every ban a player submitted for a puzzle';
+COMMENT ON COLUMN profiles.puzzle_rating IS 'Puzzle rating, separate from the game rating';
+COMMENT ON COLUMN games.puzzles_scanned_at IS 'When the puzzle job replayed this game';
@@ -0,0 +1,22 @@
+-- Post-game reports
+-- The report on a finished game (biggest mistakes in moves and bans, missed
+-- ban-mates, checks left with a single escape) is computed in the browser
+-- with the local evaluation and stored here through the game-operations
+-- function, so later visits read it instead of recomputing it. version is
+-- the report format; older reports are rebuilt when it changes.
+
+CREATE TABLE IF NOT EXISTS game_reports (
+  game_id UUID PRIMARY KEY REFERENCES games(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  report JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE game_reports ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the game-operations function
+CREATE POLICY "Game reports are viewable by everyone" ON game_reports
+  FOR SELECT USING (true);
+
+COMMENT ON TABLE game_reports IS 'Stored post-game reports, one per finished game';
+COMMENT ON COLUMN game_reports.version IS 'Report format version (GAME_REPORT_VERSION)';
@@ -0,0 +1,180 @@
+-- Glicko-2 ratings
+-- When a rated game completes, both players are rated with Glicko-2
+-- (http://www.glicko.net/glicko/glicko2.pdf), each game being its own rating
+-- period. The rating changes are stored on the game (elo_change_white /
+-- elo_change_black), where the existing update_player_stats trigger adds
+-- them to profiles.elo_rating; the new deviation and volatility are stored
+-- on the profiles here. Bot games and unrated games never change ratings.
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS rating_deviation DOUBLE PRECISION NOT NULL DEFAULT 350,
+  ADD COLUMN IF NOT EXISTS rating_volatility DOUBLE PRECISION NOT NULL DEFAULT 0.06;
+
+COMMENT ON COLUMN profiles.rating_deviation IS 'Glicko-2 rating deviation (RD), on the rating scale';
+COMMENT ON COLUMN profiles.rating_volatility IS 'Glicko-2 rating volatility';
+
+-- Step 5's f(x) from the paper, whose root gives the new volatility
+CREATE OR REPLACE FUNCTION glicko2_volatility_f(
+  x DOUBLE PRECISION,
+  delta DOUBLE PRECISION,
+  phi DOUBLE PRECISION,
+  v DOUBLE PRECISION,
+  a DOUBLE PRECISION,
+  tau DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION AS $$
+BEGIN
+  RETURN exp(x) * (delta ^ 2 - phi ^ 2 - v - exp(x)) / (2 * (phi ^ 2 + v + exp(x)) ^ 2)
+    - (x - a) / tau ^ 2;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- One Glicko-2 rating period with a single game against one opponent.
+-- score is 1 for a win, 0.5 for a draw and 0 for a loss.
+CREATE OR REPLACE FUNCTION glicko2_rate(
+  rating DOUBLE PRECISION,
+  deviation DOUBLE PRECISION,
+  volatility DOUBLE PRECISION,
+  opponent_rating DOUBLE PRECISION,
+  opponent_deviation DOUBLE PRECISION,
+  score DOUBLE PRECISION,
+  OUT new_rating DOUBLE PRECISION,
+  OUT new_deviation DOUBLE PRECISION,
+  OUT new_volatility DOUBLE PRECISION
+) AS $$
+DECLARE
+  scale CONSTANT DOUBLE PRECISION := 173.7178;
+  -- System constant: how much volatility may change per period
+  tau CONSTANT DOUBLE PRECISION := 0.5;
+  epsilon CONSTANT DOUBLE PRECISION := 0.000001;
+  max_deviation CONSTANT DOUBLE PRECISION := 350;
+  mu DOUBLE PRECISION := (rating - 1500) / scale;
+  phi DOUBLE PRECISION := deviation / scale;
+  opponent_mu DOUBLE PRECISION := (opponent_rating - 1500) / scale;
+  opponent_phi DOUBLE PRECISION := opponent_deviation / scale;
+  g DOUBLE PRECISION;
+  expected DOUBLE PRECISION;
+  v DOUBLE PRECISION;
+  delta DOUBLE PRECISION;
+  a DOUBLE PRECISION;
+  lower_x DOUBLE PRECISION;
+  upper_x DOUBLE PRECISION;
+  next_x DOUBLE PRECISION;
+  f_lower DOUBLE PRECISION;
+  f_upper DOUBLE PRECISION;
+  f_next DOUBLE PRECISION;
+  k INTEGER;
+  phi_star DOUBLE PRECISION;
+BEGIN
+  -- Steps 3-4: estimated variance and improvement from the game
+  g := 1 / sqrt(1 + 3 * opponent_phi ^ 2 / pi() ^ 2);
+  expected := 1 / (1 + exp(-g * (mu - opponent_mu)));
+  v := 1 / (g ^ 2 * expected * (1 - expected));
+  delta := v * g * (score - expected);
+
+  -- Step 5: new volatility, by the Illinois algorithm
+  a := ln(volatility ^ 2);
+  lower_x := a;
+  IF delta ^ 2 > phi ^ 2 + v THEN
+    upper_x := ln(delta ^ 2 - phi ^ 2 - v);
+  ELSE
+    k := 1;
+    WHILE glicko2_volatility_f(a - k * tau, delta, phi, v, a, tau) < 0 LOOP
+      k := k + 1;
+    END LOOP;
+    upper_x := a - k * tau;
+  END IF;
+
+  f_lower := glicko2_volatility_f(lower_x, delta, phi, v, a, tau);
+  f_upper := glicko2_volatility_f(upper_x, delta, phi, v, a, tau);
+  WHILE abs(upper_x - lower_x) > epsilon LOOP
+    next_x := lower_x + (lower_x - upper_x) * f_lower / (f_upper - f_lower);
+    f_next := glicko2_volatility_f(next_x, delta, phi, v, a, tau);
+    IF f_next * f_upper <= 0 THEN
+      lower_x := upper_x;
+      f_lower := f_upper;
+    ELSE
+      f_lower := f_lower / 2;
+    END IF;
+    upper_x := next_x;
+    f_upper := f_next;
+  END LOOP;
+  new_volatility := exp(lower_x / 2);
+
+  -- Steps 6-8: new deviation and rating, back on the rating scale
+  phi_star := sqrt(phi ^ 2 + new_volatility ^ 2);
+  phi := 1 / sqrt(1 / phi_star ^ 2 + 1 / v);
+  mu := mu + phi ^ 2 * g * (score - expected);
+
+  new_rating := scale * mu + 1500;
+  new_deviation := LEAST(scale * phi, max_deviation);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Fills in the rating changes as a game completes; runs before the row is
+-- written so update_player_stats (AFTER UPDATE) sees them. The game can be
+-- completed by either player's request, and RLS only lets a user update
+-- their own profile, so this runs as its owner to reach both.
+CREATE OR REPLACE FUNCTION rate_completed_game()
+RETURNS TRIGGER AS $$
+DECLARE
+  white profiles%ROWTYPE;
+  black profiles%ROWTYPE;
+  white_score DOUBLE PRECISION;
+  white_result RECORD;
+  black_result RECORD;
+BEGIN
+  -- Only this trigger decides rating changes
+  NEW.elo_change_white := NULL;
+  NEW.elo_change_black := NULL;
+
+  IF NOT COALESCE(NEW.is_rated, false) OR NEW.is_bot_game
+    OR NEW.winner IS NULL OR NEW.winner NOT IN ('white', 'black', 'draw') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO white FROM profiles WHERE id = NEW.white_player_id FOR UPDATE;
+  SELECT * INTO black FROM profiles WHERE id = NEW.black_player_id FOR UPDATE;
+  IF white.id IS NULL OR black.id IS NULL OR white.is_bot OR black.is_bot THEN
+    RETURN NEW;
+  END IF;
+
+  white_score := CASE NEW.winner WHEN 'white' THEN 1 WHEN 'black' THEN 0 ELSE 0.5 END;
+
+  -- Both players are rated from the ratings they had before the game
+  SELECT * INTO white_result FROM glicko2_rate(
+    COALESCE(white.elo_rating, 1200), white.rating_deviation, white.rating_volatility,
+    COALESCE(black.elo_rating, 1200), black.rating_deviation, white_score
+  );
+  SELECT * INTO black_result FROM glicko2_rate(
+    COALESCE(black.elo_rating, 1200), black.rating_deviation, black.rating_volatility,
+    COALESCE(white.elo_rating, 1200), white.rating_deviation, 1 - white_score
+  );
+
+  NEW.elo_change_white := round(white_result.new_rating) - COALESCE(white.elo_rating, 1200);
+  NEW.elo_change_black := round(black_result.new_rating) - COALESCE(black.elo_rating, 1200);
+
+  UPDATE profiles
+  SET rating_deviation = white_result.new_deviation,
+      rating_volatility = white_result.new_volatility
+  WHERE id = white.id;
+
+  UPDATE profiles
+  SET rating_deviation = black_result.new_deviation,
+      rating_volatility = black_result.new_volatility
+  WHERE id = black.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- update_player_stats adds the changes to both profiles, so it needs the
+-- same rights
+ALTER FUNCTION update_player_stats() SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS rate_game_on_completion ON games;
+CREATE TRIGGER rate_game_on_completion
+  BEFORE UPDATE ON games
+  FOR EACH ROW
+  WHEN (OLD.status = 'active' AND NEW.status = 'completed')
+  EXECUTE FUNCTION rate_completed_game();
@@ -0,0 +1,79 @@
+-- Record a move or ban and the game update it causes in one transaction
+-- The edge function used to update the game first and insert the game_moves
+-- row after, so an action that ended the game was rejected by
+-- validate_game_move (the game was no longer active) and never stored.
+-- record_game_action inserts the row while the game is still active and
+-- applies the game update in the same transaction: either both are written
+-- or neither is. The ply is the next one after the recorded actions, which
+-- is what validate_game_move expects; it is not the game version, because a
+-- takeback removes a row but still moves the version forward.
+
+CREATE OR REPLACE FUNCTION record_game_action(
+  p_game_id UUID,
+  p_version INTEGER,
+  p_game JSONB,
+  p_action JSONB
+)
+RETURNS SETOF games AS $$
+DECLARE
+  current_game games%ROWTYPE;
+  next_game games%ROWTYPE;
+  next_ply INTEGER;
+BEGIN
+  -- Same guard as the conditional update it replaces: no row comes back
+  -- when another action (or the flag sweeper) got there first
+  SELECT * INTO current_game
+  FROM games
+  WHERE id = p_game_id AND version = p_version AND status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(ply), -1) + 1 INTO next_ply
+  FROM game_moves
+  WHERE game_id = p_game_id;
+
+  INSERT INTO game_moves (game_id, action_type, action_data, ply, fen_after, action_id, result)
+  VALUES (
+    p_game_id,
+    p_action->>'action_type',
+    p_action->'action_data',
+    next_ply,
+    p_action->>'fen_after',
+    p_action->>'action_id',
+    p_action->'result'
+  );
+
+  -- Columns missing from p_game keep their current values
+  next_game := jsonb_populate_record(current_game, p_game);
+
+  UPDATE games
+  SET current_fen = next_game.current_fen,
+      ban_chess_state = next_game.ban_chess_state,
+      turn = next_game.turn,
+      banning_player = next_game.banning_player,
+      status = next_game.status,
+      winner = next_game.winner,
+      end_reason = next_game.end_reason,
+      draw_offered_by = next_game.draw_offered_by,
+      takeback_requested_by = next_game.takeback_requested_by,
+      pgn = next_game.pgn,
+      updated_at = next_game.updated_at,
+      last_move_at = next_game.last_move_at,
+      white_time_remaining = next_game.white_time_remaining,
+      black_time_remaining = next_game.black_time_remaining,
+      white_turn_start_time = next_game.white_turn_start_time,
+      black_turn_start_time = next_game.black_turn_start_time,
+      last_clock_update = next_game.last_clock_update,
+      clock_state = next_game.clock_state,
+      version = p_version + 1
+  WHERE id = p_game_id
+  RETURNING * INTO next_game;
+
+  RETURN NEXT next_game;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION record_game_action IS 'Stores a move or ban and applies its game update atomically; returns no row on a stale version';
@@ -0,0 +1,15 @@
+-- Game state is only written by the edge functions
+-- Moves, bans, resignations, draws and takebacks are validated and applied
+-- by game-action and game-operations with the service role. The original
+-- policies still let a player update their game row (status, winner,
+-- draw_offered_by, version, ...) and insert game_moves straight through
+-- PostgREST, skipping every rule - and, with ratings, finishing a rated
+-- game on their own terms. Players keep read access.
+
+DROP POLICY IF EXISTS "Players can update their games" ON games;
+DROP POLICY IF EXISTS "Players can insert moves" ON game_moves;
+
+-- record_game_action applies whatever update it is given; only the edge
+-- functions may call it
+REVOKE EXECUTE ON FUNCTION record_game_action(UUID, INTEGER, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION record_game_action(UUID, INTEGER, JSONB, JSONB) TO service_role;
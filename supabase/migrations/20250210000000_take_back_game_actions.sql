@@ -0,0 +1,75 @@
+-- Take back the last recorded action and roll the game back in one transaction
+-- acceptTakeback used to update the game and delete the game_moves row in
+-- two writes. When the delete failed the game was rolled back but the
+-- action stayed recorded, so replays, PGN rebuilds and game reports no
+-- longer matched current_fen. The update also didn't check that the
+-- request was still open, so it could race a decline.
+-- take_back_game_action deletes the row and applies the game update
+-- together, and only while the game is still at the version the takeback
+-- was computed from and the request is still open.
+
+CREATE OR REPLACE FUNCTION take_back_game_action(
+  p_game_id UUID,
+  p_version INTEGER,
+  p_move_id UUID,
+  p_game JSONB
+)
+RETURNS SETOF games AS $$
+DECLARE
+  current_game games%ROWTYPE;
+  next_game games%ROWTYPE;
+BEGIN
+  -- No row comes back when another action, a decline or the flag sweeper
+  -- got there first
+  SELECT * INTO current_game
+  FROM games
+  WHERE id = p_game_id
+    AND version = p_version
+    AND status = 'active'
+    AND takeback_requested_by IS NOT NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Only the last recorded action can be taken back
+  DELETE FROM game_moves
+  WHERE id = p_move_id
+    AND game_id = p_game_id
+    AND ply = (SELECT MAX(ply) FROM game_moves WHERE game_id = p_game_id);
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Columns missing from p_game keep their current values
+  next_game := jsonb_populate_record(current_game, p_game);
+
+  UPDATE games
+  SET current_fen = next_game.current_fen,
+      ban_chess_state = next_game.ban_chess_state,
+      turn = next_game.turn,
+      banning_player = next_game.banning_player,
+      takeback_requested_by = NULL,
+      pgn = next_game.pgn,
+      updated_at = next_game.updated_at,
+      white_time_remaining = next_game.white_time_remaining,
+      black_time_remaining = next_game.black_time_remaining,
+      white_turn_start_time = next_game.white_turn_start_time,
+      black_turn_start_time = next_game.black_turn_start_time,
+      last_clock_update = next_game.last_clock_update,
+      -- Versions only go forward, so clients order this like any other update
+      version = p_version + 1
+  WHERE id = p_game_id
+  RETURNING * INTO next_game;
+
+  RETURN NEXT next_game;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION take_back_game_action IS 'Deletes the last recorded action and applies the rolled-back game state atomically; returns no row when the game or request changed';
+
+-- Like record_game_action, only the edge functions may call it
+REVOKE EXECUTE ON FUNCTION take_back_game_action(UUID, INTEGER, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION take_back_game_action(UUID, INTEGER, UUID, JSONB) TO service_role;
@@ -0,0 +1,21 @@
+-- App-wide settings
+-- settings holds each user's preferences (one row per user_id), so the edge
+-- functions' lookups of app-wide keys in it always failed and fell back to
+-- their defaults. App-wide settings live here instead, one row per key;
+-- a key with no row uses the default in the function that reads it.
+--   allow_rated_takebacks  false turns takebacks off in rated games
+--   abort_window_seconds   how long a new game waits for its first action
+--   bot_match_wait_seconds how long a queued player waits before a bot; 0 turns bots off
+
+CREATE TABLE IF NOT EXISTS app_settings (
+  key TEXT PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+-- No policies: read by the edge functions with the service role and
+-- changed by admins from the dashboard
+
+COMMENT ON TABLE app_settings IS 'App-wide settings read by the edge functions, keyed by name';
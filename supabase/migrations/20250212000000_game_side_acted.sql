@@ -0,0 +1,166 @@
+-- Track whether each side has acted
+-- A game could be aborted while games.version < 2, but a takeback removes an
+-- action and still moves the version forward, so a game taken back to its
+-- start could no longer be aborted. white_has_acted and black_has_acted are
+-- set by the edge functions with each recorded action and recomputed from
+-- the remaining actions on a takeback; a game is abortable until both are set.
+
+ALTER TABLE games
+  ADD COLUMN IF NOT EXISTS white_has_acted BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS black_has_acted BOOLEAN NOT NULL DEFAULT false;
+
+-- Every game opens with a ban by the side not to move, then that side's
+-- opponent moves, so after two recorded actions both sides have acted
+WITH action_counts AS (
+  SELECT game_id, COUNT(*) AS actions
+  FROM game_moves
+  GROUP BY game_id
+)
+UPDATE games
+SET white_has_acted = action_counts.actions >= 2
+      OR split_part(COALESCE(games.starting_fen, 'start w'), ' ', 2) = 'b',
+    black_has_acted = action_counts.actions >= 2
+      OR split_part(COALESCE(games.starting_fen, 'start w'), ' ', 2) = 'w'
+FROM action_counts
+WHERE action_counts.game_id = games.id;
+
+COMMENT ON COLUMN games.white_has_acted IS 'White has a recorded action; the game is abortable until both sides have one';
+COMMENT ON COLUMN games.black_has_acted IS 'Black has a recorded action; the game is abortable until both sides have one';
+
+DROP INDEX IF EXISTS idx_games_abortable;
+CREATE INDEX IF NOT EXISTS idx_games_abortable ON games(created_at)
+  WHERE status = 'active' AND NOT (white_has_acted AND black_has_acted);
+
+-- Both write functions now also store the flags
+CREATE OR REPLACE FUNCTION record_game_action(
+  p_game_id UUID,
+  p_version INTEGER,
+  p_game JSONB,
+  p_action JSONB
+)
+RETURNS SETOF games AS $$
+DECLARE
+  current_game games%ROWTYPE;
+  next_game games%ROWTYPE;
+  next_ply INTEGER;
+BEGIN
+  -- Same guard as the conditional update it replaces: no row comes back
+  -- when another action (or the flag sweeper) got there first
+  SELECT * INTO current_game
+  FROM games
+  WHERE id = p_game_id AND version = p_version AND status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(ply), -1) + 1 INTO next_ply
+  FROM game_moves
+  WHERE game_id = p_game_id;
+
+  INSERT INTO game_moves (game_id, action_type, action_data, ply, fen_after, action_id, result)
+  VALUES (
+    p_game_id,
+    p_action->>'action_type',
+    p_action->'action_data',
+    next_ply,
+    p_action->>'fen_after',
+    p_action->>'action_id',
+    p_action->'result'
+  );
+
+  -- Columns missing from p_game keep their current values
+  next_game := jsonb_populate_record(current_game, p_game);
+
+  UPDATE games
+  SET current_fen = next_game.current_fen,
+      ban_chess_state = next_game.ban_chess_state,
+      turn = next_game.turn,
+      banning_player = next_game.banning_player,
+      status = next_game.status,
+      winner = next_game.winner,
+      end_reason = next_game.end_reason,
+      draw_offered_by = next_game.draw_offered_by,
+      takeback_requested_by = next_game.takeback_requested_by,
+      pgn = next_game.pgn,
+      updated_at = next_game.updated_at,
+      last_move_at = next_game.last_move_at,
+      white_time_remaining = next_game.white_time_remaining,
+      black_time_remaining = next_game.black_time_remaining,
+      white_turn_start_time = next_game.white_turn_start_time,
+      black_turn_start_time = next_game.black_turn_start_time,
+      last_clock_update = next_game.last_clock_update,
+      clock_state = next_game.clock_state,
+      white_has_acted = next_game.white_has_acted,
+      black_has_acted = next_game.black_has_acted,
+      version = p_version + 1
+  WHERE id = p_game_id
+  RETURNING * INTO next_game;
+
+  RETURN NEXT next_game;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION take_back_game_action(
+  p_game_id UUID,
+  p_version INTEGER,
+  p_move_id UUID,
+  p_game JSONB
+)
+RETURNS SETOF games AS $$
+DECLARE
+  current_game games%ROWTYPE;
+  next_game games%ROWTYPE;
+BEGIN
+  -- No row comes back when another action, a decline or the flag sweeper
+  -- got there first
+  SELECT * INTO current_game
+  FROM games
+  WHERE id = p_game_id
+    AND version = p_version
+    AND status = 'active'
+    AND takeback_requested_by IS NOT NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Only the last recorded action can be taken back
+  DELETE FROM game_moves
+  WHERE id = p_move_id
+    AND game_id = p_game_id
+    AND ply = (SELECT MAX(ply) FROM game_moves WHERE game_id = p_game_id);
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  -- Columns missing from p_game keep their current values
+  next_game := jsonb_populate_record(current_game, p_game);
+
+  UPDATE games
+  SET current_fen = next_game.current_fen,
+      ban_chess_state = next_game.ban_chess_state,
+      turn = next_game.turn,
+      banning_player = next_game.banning_player,
+      takeback_requested_by = NULL,
+      pgn = next_game.pgn,
+      updated_at = next_game.updated_at,
+      white_time_remaining = next_game.white_time_remaining,
+      black_time_remaining = next_game.black_time_remaining,
+      white_turn_start_time = next_game.white_turn_start_time,
+      black_turn_start_time = next_game.black_turn_start_time,
+      last_clock_update = next_game.last_clock_update,
+      last_move_at = next_game.last_move_at,
+      white_has_acted = next_game.white_has_acted,
+      black_has_acted = next_game.black_has_acted,
+      -- Versions only go forward, so clients order this like any other update
+      version = p_version + 1
+  WHERE id = p_game_id
+  RETURNING * INTO next_game;
+
+  RETURN NEXT next_game;
+END;
+$$ LANGUAGE plpgsql;
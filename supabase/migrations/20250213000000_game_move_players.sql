@@ -0,0 +1,88 @@
+-- Record who made each action
+-- A retried action is found by its client-generated action_id, which was
+-- only unique per game: one player could send the other's action_id and
+-- get that player's recorded result back. Actions now store the player who
+-- made them, and action IDs are looked up (and unique) per player. Rows
+-- recorded before this have no player and are never replayed.
+
+ALTER TABLE game_moves
+  ADD COLUMN IF NOT EXISTS player_id UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+DROP INDEX IF EXISTS idx_game_moves_action_id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_game_moves_action_id
+  ON game_moves(game_id, player_id, action_id)
+  WHERE action_id IS NOT NULL;
+
+COMMENT ON COLUMN game_moves.player_id IS 'Player who made this action';
+
+-- record_game_action now stores p_action.player_id
+CREATE OR REPLACE FUNCTION record_game_action(
+  p_game_id UUID,
+  p_version INTEGER,
+  p_game JSONB,
+  p_action JSONB
+)
+RETURNS SETOF games AS $$
+DECLARE
+  current_game games%ROWTYPE;
+  next_game games%ROWTYPE;
+  next_ply INTEGER;
+BEGIN
+  -- Same guard as the conditional update it replaces: no row comes back
+  -- when another action (or the flag sweeper) got there first
+  SELECT * INTO current_game
+  FROM games
+  WHERE id = p_game_id AND version = p_version AND status = 'active'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(MAX(ply), -1) + 1 INTO next_ply
+  FROM game_moves
+  WHERE game_id = p_game_id;
+
+  INSERT INTO game_moves (game_id, player_id, action_type, action_data, ply, fen_after, action_id, result)
+  VALUES (
+    p_game_id,
+    (p_action->>'player_id')::UUID,
+    p_action->>'action_type',
+    p_action->'action_data',
+    next_ply,
+    p_action->>'fen_after',
+    p_action->>'action_id',
+    p_action->'result'
+  );
+
+  -- Columns missing from p_game keep their current values
+  next_game := jsonb_populate_record(current_game, p_game);
+
+  UPDATE games
+  SET current_fen = next_game.current_fen,
+      ban_chess_state = next_game.ban_chess_state,
+      turn = next_game.turn,
+      banning_player = next_game.banning_player,
+      status = next_game.status,
+      winner = next_game.winner,
+      end_reason = next_game.end_reason,
+      draw_offered_by = next_game.draw_offered_by,
+      takeback_requested_by = next_game.takeback_requested_by,
+      pgn = next_game.pgn,
+      updated_at = next_game.updated_at,
+      last_move_at = next_game.last_move_at,
+      white_time_remaining = next_game.white_time_remaining,
+      black_time_remaining = next_game.black_time_remaining,
+      white_turn_start_time = next_game.white_turn_start_time,
+      black_turn_start_time = next_game.black_turn_start_time,
+      last_clock_update = next_game.last_clock_update,
+      clock_state = next_game.clock_state,
+      white_has_acted = next_game.white_has_acted,
+      black_has_acted = next_game.black_has_acted,
+      version = p_version + 1
+  WHERE id = p_game_id
+  RETURNING * INTO next_game;
+
+  RETURN NEXT next_game;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,273 @@
+import { test, expect } from '@playwright/test';
+import { createClient } from '@supabase/supabase-js';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { BanChess } from 'ban-chess.ts';
+import type { Database, Json } from '../src/types/database';
+
+// These talk to the Supabase stack directly (edge functions and database),
+// so they need the local stack from `npm run supabase:start` and its keys
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const ANON_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Black is in check from the a8 rook with Kg7 as the only escape; White
+// bans it and mates
+const BAN_MATE_FEN = 'R6k/7p/8/8/8/8/8/K7 b - - 0 1 w:ban';
+
+interface Player {
+  id: string;
+  token: string;
+}
+
+interface ActionResponse {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+test.describe('Game integrity', () => {
+  test.skip(!SUPABASE_URL || !ANON_KEY || !SERVICE_ROLE_KEY, 'Needs NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY');
+
+  let admin: SupabaseClient<Database>;
+  let white: Player;
+  let black: Player;
+
+  test.beforeEach(async () => {
+    admin = createClient<Database>(SUPABASE_URL!, SERVICE_ROLE_KEY!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+    white = await signInGuest();
+    black = await signInGuest();
+  });
+
+  test('retrying an action with the same ID returns the original result', async () => {
+    const gameId = await createGame({});
+
+    const first = await gameAction(black, { gameId, action: { ban: { from: 'e2', to: 'e4' } }, actionId: 'retry-ban-1' });
+    expect(first.status).toBe(200);
+    expect(first.body.version).toBe(1);
+
+    const retry = await gameAction(black, { gameId, action: { ban: { from: 'e2', to: 'e4' } }, actionId: 'retry-ban-1' });
+    expect(retry.status).toBe(200);
+    expect(retry.body.duplicate).toBe(true);
+    expect(retry.body.version).toBe(1);
+    expect(retry.body.current_fen).toBe(first.body.current_fen);
+
+    const game = await loadGame(gameId);
+    expect(game.version).toBe(1);
+    expect(await loadMoves(gameId)).toHaveLength(1);
+  });
+
+  test('an action ID only replays results for the player who sent it', async () => {
+    const gameId = await createGame({});
+
+    expect((await gameAction(black, { gameId, action: { ban: { from: 'e2', to: 'e4' } }, actionId: 'shared-id' })).status).toBe(200);
+
+    const other = await gameAction(white, { gameId, action: { move: { from: 'd2', to: 'd4' } }, actionId: 'shared-id' });
+    expect(other.status).toBe(200);
+    expect(other.body.duplicate).toBeUndefined();
+    expect(other.body.version).toBe(2);
+    expect(await loadMoves(gameId)).toHaveLength(2);
+  });
+
+  test('actions after a takeback are recorded', async () => {
+    const gameId = await createGame({});
+
+    expect((await gameAction(black, { gameId, action: { ban: { from: 'd2', to: 'd4' } } })).status).toBe(200);
+    expect((await gameAction(white, { gameId, action: { move: { from: 'e2', to: 'e4' } } })).status).toBe(200);
+
+    expect((await gameOperation(white, 'requestTakeback', gameId)).status).toBe(200);
+    expect((await gameOperation(black, 'acceptTakeback', gameId)).status).toBe(200);
+    expect(await loadMoves(gameId)).toHaveLength(1);
+
+    // The ply freed by the takeback is used again, and the game goes on
+    expect((await gameAction(white, { gameId, action: { move: { from: 'g1', to: 'f3' } } })).status).toBe(200);
+    expect((await gameAction(white, { gameId, action: { ban: { from: 'e7', to: 'e5' } } })).status).toBe(200);
+
+    const moves = await loadMoves(gameId);
+    expect(moves.map(m => m.ply)).toEqual([0, 1, 2]);
+    expect(replay(moves)).toBe((await loadGame(gameId)).current_fen);
+  });
+
+  test('a game taken back to its start can still be aborted', async () => {
+    const gameId = await createGame({});
+
+    expect((await gameAction(black, { gameId, action: { ban: { from: 'e2', to: 'e4' } } })).status).toBe(200);
+    expect((await gameOperation(black, 'requestTakeback', gameId)).status).toBe(200);
+    expect((await gameOperation(white, 'acceptTakeback', gameId)).status).toBe(200);
+
+    // The version moved forward twice, but neither side has an action left
+    const rolledBack = await loadGame(gameId);
+    expect(rolledBack.version).toBe(2);
+    expect(rolledBack.black_has_acted).toBe(false);
+
+    expect((await gameAction(white, { gameId, action: { abort: true } })).status).toBe(200);
+    expect((await loadGame(gameId)).status).toBe('aborted');
+  });
+
+  for (const allowed of [true, false]) {
+    test(`rated takebacks follow allow_rated_takebacks (${allowed})`, async () => {
+      const gameId = await createGame({ rated: true });
+      expect((await gameAction(black, { gameId, action: { ban: { from: 'd2', to: 'd4' } } })).status).toBe(200);
+      expect((await gameAction(white, { gameId, action: { move: { from: 'e2', to: 'e4' } } })).status).toBe(200);
+
+      await withAppSetting('allow_rated_takebacks', allowed, async () => {
+        const request = await gameOperation(white, 'requestTakeback', gameId);
+        expect(request.status).toBe(allowed ? 200 : 403);
+        expect((await loadGame(gameId)).takeback_requested_by).toBe(allowed ? 'white' : null);
+      });
+    });
+  }
+
+  test('the action that mates is recorded with its result', async () => {
+    const gameId = await createGame({ fen: BAN_MATE_FEN });
+
+    const mate = await gameAction(white, { gameId, action: { ban: { from: 'h8', to: 'g7' } }, actionId: 'mating-ban' });
+    expect(mate.status).toBe(200);
+    expect(mate.body.gameOver).toBe(true);
+
+    const game = await loadGame(gameId);
+    expect(game.status).toBe('completed');
+    expect(game.winner).toBe('white');
+    expect(game.end_reason).toBe('checkmate');
+
+    const moves = await loadMoves(gameId);
+    expect(moves).toHaveLength(1);
+    expect(moves[0].fen_after).toBe(game.current_fen);
+    expect(replay(moves, BAN_MATE_FEN)).toBe(game.current_fen);
+
+    // A retry after the game ended still gets the original result
+    const retry = await gameAction(white, { gameId, action: { ban: { from: 'h8', to: 'g7' } }, actionId: 'mating-ban' });
+    expect(retry.status).toBe(200);
+    expect(retry.body.duplicate).toBe(true);
+    expect(retry.body.gameOver).toBe(true);
+  });
+
+  test('finishing a rated game updates both players\' ratings', async () => {
+    const before = await loadProfiles();
+    const gameId = await createGame({ fen: BAN_MATE_FEN, rated: true });
+
+    // White's request ends the game; Black's profile has to change as well
+    expect((await gameAction(white, { gameId, action: { ban: { from: 'h8', to: 'g7' } } })).status).toBe(200);
+
+    const game = await loadGame(gameId);
+    expect(game.elo_change_white).toBeGreaterThan(0);
+    expect(game.elo_change_black).toBeLessThan(0);
+
+    // New profiles may not have a rating yet, which counts as 1200
+    const after = await loadProfiles();
+    expect(after.white.elo_rating).toBe((before.white.elo_rating ?? 1200) + game.elo_change_white!);
+    expect(after.black.elo_rating).toBe((before.black.elo_rating ?? 1200) + game.elo_change_black!);
+    expect(after.white.rating_deviation).toBeLessThan(before.white.rating_deviation);
+    expect(after.black.rating_deviation).toBeLessThan(before.black.rating_deviation);
+    expect(after.white.games_won).toBe((before.white.games_won ?? 0) + 1);
+    expect(after.black.games_lost).toBe((before.black.games_lost ?? 0) + 1);
+  });
+
+  async function signInGuest(): Promise<Player> {
+    const client = createClient<Database>(SUPABASE_URL!, ANON_KEY!, {
+      auth: { autoRefreshToken: false, persistSession: false },
+    });
+    const { data, error } = await client.auth.signInAnonymously();
+    if (error || !data.session) throw error ?? new Error('No session for guest');
+    return { id: data.user.id, token: data.session.access_token };
+  }
+
+  // Game rows are created with the service role, as matchmaking does
+  async function createGame({ fen, rated = false }: { fen?: string; rated?: boolean }): Promise<string> {
+    const engine = new BanChess(fen);
+    const { data, error } = await admin
+      .from('games')
+      .insert({
+        white_player_id: white.id,
+        black_player_id: black.id,
+        status: 'active',
+        current_fen: engine.fen(),
+        starting_fen: fen ? engine.fen() : null,
+        turn: engine.turn === 'white' ? 'black' : 'white',
+        banning_player: engine.turn,
+        ban_chess_state: 'waiting_for_ban',
+        pgn: '',
+        time_control: { initial_time: 600000, increment: 0 },
+        white_time_remaining: 600000,
+        black_time_remaining: 600000,
+        is_rated: rated,
+      })
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id;
+  }
+
+  async function gameAction(player: Player, body: Record<string, unknown>): Promise<ActionResponse> {
+    return callFunction(player, 'game-action', body);
+  }
+
+  async function gameOperation(player: Player, operation: string, gameId: string): Promise<ActionResponse> {
+    return callFunction(player, 'game-operations', { operation, gameId });
+  }
+
+  async function callFunction(player: Player, name: string, body: Record<string, unknown>): Promise<ActionResponse> {
+    const response = await fetch(`${SUPABASE_URL}/functions/v1/${name}`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${player.token}`,
+        apikey: ANON_KEY!,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: await response.json() };
+  }
+
+  async function loadGame(gameId: string) {
+    const { data, error } = await admin.from('games').select('*').eq('id', gameId).single();
+    if (error) throw error;
+    return data;
+  }
+
+  async function loadMoves(gameId: string) {
+    const { data, error } = await admin
+      .from('game_moves')
+      .select('*')
+      .eq('game_id', gameId)
+      .order('ply', { ascending: true });
+    if (error) throw error;
+    return data;
+  }
+
+  async function loadProfiles() {
+    const { data, error } = await admin
+      .from('profiles')
+      .select('id, elo_rating, rating_deviation, games_won, games_lost')
+      .in('id', [white.id, black.id]);
+    if (error) throw error;
+    return {
+      white: data.find(p => p.id === white.id)!,
+      black: data.find(p => p.id === black.id)!,
+    };
+  }
+
+  // Sets an app-wide setting for the duration of `run`
+  async function withAppSetting(key: string, value: Json, run: () => Promise<void>) {
+    const { error } = await admin.from('app_settings').upsert({ key, value });
+    if (error) throw error;
+    try {
+      await run();
+    } finally {
+      await admin.from('app_settings').delete().eq('key', key);
+    }
+  }
+
+  // FEN reached by replaying the recorded actions
+  function replay(moves: Database['public']['Tables']['game_moves']['Row'][], startFen?: string): string {
+    const engine = new BanChess(startFen);
+    for (const { action_type, action_data } of moves) {
+      const data = action_data as { from: string; to: string; promotion?: 'q' | 'r' | 'b' | 'n' };
+      const result = action_type === 'ban'
+        ? engine.play({ ban: { from: data.from, to: data.to } })
+        : engine.play({ move: data });
+      expect(result.success).toBe(true);
+    }
+    return engine.fen();
+  }
+});
@@ -0,0 +1,34 @@
+import { test, expect } from '@playwright/test';
+import { buildPgn, importBanChess, pgnMovetext, replayActions } from '../src/utils/pgn';
+
+// Black to move on move 3, so White's ban opens the game
+const BLACK_TO_MOVE_FEN = 'r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R b KQkq - 3 3 w:ban';
+
+test.describe('PGN move numbers', () => {
+  test('a standard game opens with Black\'s ban on move 1', () => {
+    const actions = [
+      { action_type: 'ban', action_data: { from: 'e2', to: 'e4' } },
+      { action_type: 'move', action_data: { from: 'd2', to: 'd4' } },
+      { action_type: 'ban', action_data: { from: 'e7', to: 'e5' } },
+      { action_type: 'move', action_data: { from: 'd7', to: 'd5' } },
+    ];
+
+    expect(pgnMovetext(actions)).toBe('1. {banning: e2e4} d4 {banning: e7e5} d5');
+  });
+
+  test('a game from a position with Black to move is numbered from that position', () => {
+    const actions = [
+      { action_type: 'ban', action_data: { from: 'g8', to: 'f6' } },
+      { action_type: 'move', action_data: { from: 'f8', to: 'c5' } },
+      { action_type: 'ban', action_data: { from: 'c2', to: 'c3' } },
+      { action_type: 'move', action_data: { from: 'b1', to: 'c3' } },
+    ];
+
+    const movetext = pgnMovetext(actions, BLACK_TO_MOVE_FEN);
+    expect(movetext).toBe('3... {banning: g8f6} Bc5 4. {banning: c2c3} Nc3');
+
+    // The exported game imports back to the same position
+    const imported = importBanChess(buildPgn(movetext, { startingFen: BLACK_TO_MOVE_FEN }));
+    expect(imported.engine.fen()).toBe(replayActions(actions, BLACK_TO_MOVE_FEN).fen());
+  });
+});